@@ -0,0 +1,175 @@
+import express, { Request, Response, NextFunction, Router } from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import { RoomManager } from './roomManager';
+import { LIMITS } from '../../shared/validation';
+import { Room, PeerRecord, AdminRoomSummary, AdminRoomDetail, AdminPeer } from './types';
+
+export interface AdminOptions {
+    token: string;
+    // Where to append the JSON-lines audit log, in addition to stdout
+    auditLogPath?: string;
+    addressOf: (req: Request) => string | undefined;
+}
+
+const DEFAULT_CLOSE_REASON = 'This room was closed by an administrator';
+const DEFAULT_DISCONNECT_REASON = 'You were disconnected by an administrator';
+
+// Operator API under /admin; every request, allowed or not, is audited
+export function createAdminRouter(roomManager: RoomManager, options: AdminOptions): Router {
+    const router = express.Router();
+
+    const audit = (req: Request, action: string, details: Record<string, unknown> = {}) => {
+        const entry = JSON.stringify({
+            time: new Date().toISOString(),
+            address: options.addressOf(req),
+            action,
+            ...details,
+        });
+        console.log(`[Admin] ${entry}`);
+
+        if (options.auditLogPath) {
+            fs.appendFile(options.auditLogPath, entry + '\n', (error) => {
+                if (error) console.error('[Admin] Failed to write audit log:', error);
+            });
+        }
+    };
+
+    // Bearer token auth; comparing digests keeps the check constant-time
+    router.use((req: Request, res: Response, next: NextFunction) => {
+        const header = req.headers.authorization || '';
+        const supplied = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+        if (!supplied || !tokensMatch(supplied, options.token)) {
+            audit(req, 'unauthorized', { method: req.method, path: req.path });
+            res.status(401).json({ error: 'Unauthorized' });
+            return;
+        }
+        next();
+    });
+
+    router.get('/rooms', async (req, res) => {
+        try {
+            const rooms = await roomManager.listRooms();
+            audit(req, 'list-rooms', { rooms: rooms.length });
+            res.json({ rooms: rooms.map(toSummary) });
+        } catch (error) {
+            console.error('[Admin] Failed to list rooms:', error);
+            res.status(500).json({ error: 'Failed to list rooms' });
+        }
+    });
+
+    router.get('/rooms/:roomId', async (req, res) => {
+        const { roomId } = req.params;
+        try {
+            const room = await roomManager.getRoom(roomId);
+            audit(req, 'show-room', { roomId, found: !!room });
+            if (!room) {
+                res.status(404).json({ error: 'Room not found' });
+                return;
+            }
+            res.json(toDetail(roomManager, room));
+        } catch (error) {
+            console.error(`[Admin] Failed to load room ${roomId}:`, error);
+            res.status(500).json({ error: 'Failed to load room' });
+        }
+    });
+
+    router.delete('/rooms/:roomId', async (req, res) => {
+        const { roomId } = req.params;
+        const reason = readReason(req, DEFAULT_CLOSE_REASON);
+        if (reason === null) {
+            res.status(400).json({ error: 'Invalid reason' });
+            return;
+        }
+
+        try {
+            const disconnected = await roomManager.closeRoom(roomId, reason);
+            audit(req, 'close-room', { roomId, reason, found: disconnected !== undefined, disconnected });
+            if (disconnected === undefined) {
+                res.status(404).json({ error: 'Room not found' });
+                return;
+            }
+            res.json({ roomId, disconnected });
+        } catch (error) {
+            console.error(`[Admin] Failed to close room ${roomId}:`, error);
+            res.status(500).json({ error: 'Failed to close room' });
+        }
+    });
+
+    router.delete('/rooms/:roomId/peers/:peerId', async (req, res) => {
+        const { roomId, peerId } = req.params;
+        const reason = readReason(req, DEFAULT_DISCONNECT_REASON);
+        if (reason === null) {
+            res.status(400).json({ error: 'Invalid reason' });
+            return;
+        }
+
+        try {
+            const disconnected = await roomManager.disconnectPeer(roomId, peerId, reason);
+            audit(req, 'disconnect-peer', { roomId, peerId, reason, found: disconnected });
+            if (!disconnected) {
+                res.status(404).json({ error: 'Peer not found' });
+                return;
+            }
+            res.json({ roomId, peerId });
+        } catch (error) {
+            console.error(`[Admin] Failed to disconnect ${peerId} from room ${roomId}:`, error);
+            res.status(500).json({ error: 'Failed to disconnect peer' });
+        }
+    });
+
+    return router;
+}
+
+function tokensMatch(supplied: string, expected: string): boolean {
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(supplied), digest(expected));
+}
+
+// The reason is shown to disconnected peers; null means it was malformed
+function readReason(req: Request, fallback: string): string | null {
+    const reason = (req.body || {}).reason;
+    if (reason === undefined || reason === '') return fallback;
+    if (typeof reason !== 'string' || reason.length > LIMITS.errorMessage) return null;
+    return reason;
+}
+
+function toSummary(room: Room): AdminRoomSummary {
+    return {
+        id: room.id,
+        createdAt: room.createdAt,
+        peers: room.peers.length,
+        lobby: room.lobby.length,
+        usernames: room.peers.map(p => p.username || p.id),
+        locked: room.locked,
+        passwordProtected: !!room.password,
+        lobbyEnabled: room.lobbyEnabled,
+    };
+}
+
+function toDetail(roomManager: RoomManager, room: Room): AdminRoomDetail {
+    const toPeer = (record: PeerRecord): AdminPeer => {
+        const ws = roomManager.getPeerSocket(room.id, record.id);
+        return {
+            id: record.id,
+            username: record.username,
+            address: record.address,
+            nodeId: record.nodeId,
+            joinedAt: record.joinedAt,
+            host: room.hostId === record.id,
+            connectedHere: !!ws && ws.readyState === ws.OPEN,
+        };
+    };
+
+    return {
+        id: room.id,
+        createdAt: room.createdAt,
+        hostId: room.hostId,
+        locked: room.locked,
+        passwordProtected: !!room.password,
+        lobbyEnabled: room.lobbyEnabled,
+        peers: room.peers.map(toPeer),
+        lobby: room.lobby.map(toPeer),
+        bannedAddresses: room.bannedAddresses,
+    };
+}
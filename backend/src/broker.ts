@@ -0,0 +1,61 @@
+import { EventEmitter } from 'events';
+
+// Minimal key-value and pub/sub primitives shared by every server instance
+export interface Broker {
+    get(key: string): Promise<string | null>;
+    keys(prefix: string): Promise<string[]>;
+    // Write `value` (or delete when null) only if the key still holds `expected`
+    compareAndSet(key: string, expected: string | null, value: string | null): Promise<boolean>;
+    publish(channel: string, message: string): Promise<void>;
+    subscribe(channel: string, handler: (message: string) => void): Promise<() => Promise<void>>;
+    // Resolves once the broker is reachable
+    ping(): Promise<void>;
+    close(): Promise<void>;
+}
+
+// In-process stand-in: several servers in one process can share one instance
+export class LocalBroker implements Broker {
+    private values: Map<string, string> = new Map();
+    private emitter = new EventEmitter();
+
+    constructor() {
+        this.emitter.setMaxListeners(0);
+    }
+
+    async get(key: string): Promise<string | null> {
+        return this.values.get(key) ?? null;
+    }
+
+    async keys(prefix: string): Promise<string[]> {
+        return Array.from(this.values.keys()).filter(key => key.startsWith(prefix));
+    }
+
+    async compareAndSet(key: string, expected: string | null, value: string | null): Promise<boolean> {
+        if ((this.values.get(key) ?? null) !== expected) return false;
+
+        if (value === null) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, value);
+        }
+        return true;
+    }
+
+    async publish(channel: string, message: string): Promise<void> {
+        // Deliver asynchronously, like a real broker would
+        setImmediate(() => this.emitter.emit(channel, message));
+    }
+
+    async subscribe(channel: string, handler: (message: string) => void): Promise<() => Promise<void>> {
+        this.emitter.on(channel, handler);
+        return async () => {
+            this.emitter.off(channel, handler);
+        };
+    }
+
+    async ping(): Promise<void> {}
+
+    async close(): Promise<void> {
+        this.emitter.removeAllListeners();
+    }
+}
@@ -0,0 +1,151 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { LocalBroker } from './broker';
+import { SharedRoomStore } from './roomStore';
+import { RunningServer, createStoreFromEnv, startServer } from './server';
+import { SignalingMessage } from './types';
+
+// Two instances sharing one broker, as they would share Redis in production
+
+interface TestClient {
+    ws: WebSocket;
+    peerId: string;
+    resumeToken: string;
+    send: (message: Omit<SignalingMessage, 'senderId'>) => void;
+    next: (type: string) => Promise<SignalingMessage>;
+}
+
+function portOf(running: RunningServer): number {
+    return (running.server.address() as AddressInfo).port;
+}
+
+async function connect(running: RunningServer): Promise<TestClient> {
+    const ws = new WebSocket(`ws://localhost:${portOf(running)}`);
+    const received: SignalingMessage[] = [];
+    const waiting: Array<{ type: string; resolve: (message: SignalingMessage) => void }> = [];
+
+    ws.on('message', (data) => {
+        const message = JSON.parse(data.toString()) as SignalingMessage;
+        const waiter = waiting.find(w => w.type === message.type);
+        if (waiter) {
+            waiting.splice(waiting.indexOf(waiter), 1);
+            waiter.resolve(message);
+        } else {
+            received.push(message);
+        }
+    });
+
+    const next = (type: string) => {
+        const index = received.findIndex(m => m.type === type);
+        if (index !== -1) return Promise.resolve(received.splice(index, 1)[0]);
+
+        return new Promise<SignalingMessage>((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error(`No ${type} message`)), 3000);
+            waiting.push({ type, resolve: (message) => { clearTimeout(timer); resolve(message); } });
+        });
+    };
+
+    const welcome = await next('welcome');
+    const { peerId, resumeToken } = welcome.payload as { peerId: string; resumeToken: string };
+    const send = (message: Omit<SignalingMessage, 'senderId'>) => ws.send(JSON.stringify({ ...message, senderId: peerId }));
+    return { ws, peerId, resumeToken, send, next };
+}
+
+async function createRoom(running: RunningServer): Promise<{ roomId: string; hostToken: string }> {
+    const response = await fetch(`http://localhost:${portOf(running)}/create-room`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{}',
+    });
+    return await response.json() as { roomId: string; hostToken: string };
+}
+
+let broker: LocalBroker;
+let first: RunningServer;
+let second: RunningServer;
+const clients: TestClient[] = [];
+
+before(async () => {
+    broker = new LocalBroker();
+    first = await startServer({ port: 0, store: new SharedRoomStore(broker, 'first') });
+    second = await startServer({ port: 0, store: new SharedRoomStore(broker, 'second') });
+});
+
+after(async () => {
+    clients.forEach(client => client.ws.close());
+    await first.close();
+    await second.close();
+});
+
+test('peers on different instances share a room and signal each other', async () => {
+    const { roomId, hostToken } = await createRoom(first);
+    const host = await connect(first);
+    const guest = await connect(second);
+    clients.push(host, guest);
+
+    host.send({ type: 'join', roomId, payload: { username: 'host', hostToken } });
+    await host.next('peer-list');
+    guest.send({ type: 'join', roomId, payload: { username: 'guest' } });
+
+    const peerList = await guest.next('peer-list');
+    assert.deepEqual((peerList.payload as { id: string }[]).map(p => p.id), [host.peerId, guest.peerId]);
+    assert.equal(((await host.next('peer-joined')).payload as { id: string }).id, guest.peerId);
+
+    host.send({ type: 'offer', roomId, targetId: guest.peerId, payload: { type: 'offer', sdp: 'offer-sdp' } });
+    const offer = await guest.next('offer');
+    assert.equal(offer.senderId, host.peerId);
+    assert.deepEqual(offer.payload, { type: 'offer', sdp: 'offer-sdp' });
+
+    guest.send({ type: 'answer', roomId, targetId: host.peerId, payload: { type: 'answer', sdp: 'answer-sdp' } });
+    assert.equal((await host.next('answer')).senderId, guest.peerId);
+
+    host.send({ type: 'kick', roomId, targetId: guest.peerId });
+    assert.deepEqual((await guest.next('peer-left')).payload, { peerId: guest.peerId, reason: 'kicked' });
+    assert.deepEqual((await host.next('peer-left')).payload, { peerId: guest.peerId, reason: 'kicked' });
+});
+
+test('peers held by an instance that stopped heartbeating are removed', async () => {
+    const { roomId, hostToken } = await createRoom(second);
+    const host = await connect(second);
+    clients.push(host);
+
+    host.send({ type: 'join', roomId, payload: { username: 'host', hostToken } });
+    await host.next('peer-list');
+
+    // A member whose instance crashed without cleaning up
+    const store = new SharedRoomStore(broker, 'second');
+    await store.updateRoom(roomId, (room) => {
+        room!.peers.push({ id: 'orphan', username: 'orphan', nodeId: 'crashed', joinedAt: Date.now() });
+        return room;
+    });
+
+    assert.equal(await second.roomManager.reapDeadNodes(), 1);
+    assert.deepEqual((await host.next('peer-left')).payload, { peerId: 'orphan', reason: 'disconnected' });
+    assert.deepEqual((await store.getRoom(roomId))!.peers.map(p => p.id), [host.peerId]);
+});
+
+test('only members of a room get ICE servers, from any instance', async () => {
+    const { roomId, hostToken } = await createRoom(first);
+    const host = await connect(first);
+    clients.push(host);
+
+    const iceServers = (token?: string) => fetch(`http://localhost:${portOf(second)}/ice-servers?roomId=${roomId}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+    assert.equal((await iceServers()).status, 401);
+    assert.equal((await iceServers(host.resumeToken)).status, 401);
+
+    host.send({ type: 'join', roomId, payload: { username: 'host', hostToken } });
+    await host.next('peer-list');
+    const response = await iceServers(host.resumeToken);
+    assert.equal(response.status, 200);
+    assert.ok(Array.isArray(((await response.json()) as { iceServers: unknown[] }).iceServers));
+    assert.equal((await iceServers(`${host.resumeToken}x`)).status, 401);
+});
+
+test('instances sharing rooms refuse to start without a shared resume secret', () => {
+    assert.throws(() => createStoreFromEnv({ REDIS_URL: 'redis://localhost:6379' }), /RESUME_SECRET/);
+});
@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import { IceServer, IceServersResponse } from './types';
+
+function envList(name: string, fallback: string[] = []): string[] {
+    const value = process.env[name];
+    if (!value) return fallback;
+    return value.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+const STUN_URLS = envList('STUN_URLS', ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302']);
+const TURN_URLS = envList('TURN_URLS');
+// Same value as the TURN server's shared secret (coturn: static-auth-secret)
+const TURN_SECRET = process.env.TURN_SECRET;
+const TURN_TTL = Number(process.env.TURN_TTL) || 60 * 60; // Seconds
+
+// TURN REST API credentials: the username carries its own expiry and the
+// password is an HMAC of it, so the TURN server can check both statelessly
+function createTurnCredentials(secret: string, expiresAt: number): { username: string; credential: string } {
+    const username = `${Math.floor(expiresAt / 1000)}:${crypto.randomBytes(4).toString('hex')}`;
+    const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+    return { username, credential };
+}
+
+export function getIceServers(): IceServersResponse {
+    const expiresAt = Date.now() + TURN_TTL * 1000;
+    const iceServers: IceServer[] = [];
+
+    if (STUN_URLS.length > 0) {
+        iceServers.push({ urls: STUN_URLS });
+    }
+
+    if (TURN_URLS.length > 0 && TURN_SECRET) {
+        iceServers.push({ urls: TURN_URLS, ...createTurnCredentials(TURN_SECRET, expiresAt) });
+    }
+
+    return { iceServers, ttl: TURN_TTL, expiresAt };
+}
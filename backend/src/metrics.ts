@@ -0,0 +1,86 @@
+// Minimal Prometheus text-format metrics. Counters are process-wide; room
+// gauges are computed from the room store at scrape time.
+
+type Labels = Record<string, string>;
+
+function formatLabels(labels: Labels): string {
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escape(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function header(name: string, help: string, type: 'counter' | 'gauge' | 'histogram'): string {
+    return `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`;
+}
+
+class Counter {
+    private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+    constructor(private name: string, private help: string) {}
+
+    inc(labels: Labels = {}, amount = 1): void {
+        const key = formatLabels(labels);
+        const entry = this.values.get(key) || { labels, value: 0 };
+        entry.value += amount;
+        this.values.set(key, entry);
+    }
+
+    render(): string {
+        let text = header(this.name, this.help, 'counter');
+        if (this.values.size === 0) {
+            text += `${this.name} 0\n`;
+        }
+        this.values.forEach(({ labels, value }) => {
+            text += `${this.name}${formatLabels(labels)} ${value}\n`;
+        });
+        return text;
+    }
+}
+
+function renderGauge(name: string, help: string, value: number): string {
+    return `${header(name, help, 'gauge')}${name} ${value}\n`;
+}
+
+function renderHistogram(name: string, help: string, buckets: number[], values: number[]): string {
+    let text = header(name, help, 'histogram');
+    buckets.forEach((bound) => {
+        text += `${name}_bucket{le="${bound}"} ${values.filter(v => v <= bound).length}\n`;
+    });
+    text += `${name}_bucket{le="+Inf"} ${values.length}\n`;
+    text += `${name}_sum ${values.reduce((sum, v) => sum + v, 0)}\n`;
+    text += `${name}_count ${values.length}\n`;
+    return text;
+}
+
+export const metrics = {
+    joins: new Counter('aeroshare_joins_total', 'Peers that joined a room'),
+    leaves: new Counter('aeroshare_leaves_total', 'Peers that left a room, by reason'),
+    forwarded: new Counter('aeroshare_messages_forwarded_total', 'Signaling messages forwarded between peers, by type'),
+    errors: new Counter('aeroshare_errors_total', 'Error messages sent to clients, by code'),
+    relayedBytes: new Counter('aeroshare_relayed_bytes_total', 'Encrypted transfer bytes relayed between peers'),
+    heartbeatTerminations: new Counter('aeroshare_heartbeat_terminations_total', 'Connections closed for missing heartbeats'),
+};
+
+const ROOM_SIZE_BUCKETS = [1, 2, 3, 5, 10, 20, 50];
+
+export interface MetricsSnapshot {
+    roomSizes: number[];
+    connections: number;
+}
+
+export function renderMetrics({ roomSizes, connections }: MetricsSnapshot): string {
+    return [
+        renderGauge('aeroshare_rooms', 'Rooms currently open', roomSizes.length),
+        renderGauge('aeroshare_peers', 'Peers currently in a room', roomSizes.reduce((sum, size) => sum + size, 0)),
+        renderGauge('aeroshare_connections', 'WebSocket connections open on this instance', connections),
+        renderHistogram('aeroshare_room_size', 'Peers per open room', ROOM_SIZE_BUCKETS, roomSizes),
+        metrics.joins.render(),
+        metrics.leaves.render(),
+        metrics.forwarded.render(),
+        metrics.errors.render(),
+        metrics.relayedBytes.render(),
+        metrics.heartbeatTerminations.render(),
+        renderGauge('process_uptime_seconds', 'Process uptime', process.uptime()),
+        renderGauge('process_resident_memory_bytes', 'Resident memory size', process.memoryUsage().rss),
+    ].join('');
+}
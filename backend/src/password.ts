@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+import { PasswordHash } from './types';
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Derive a salted scrypt hash so room passphrases are never stored in clear text
+export function hashPassword(password: string): PasswordHash {
+    const salt = crypto.randomBytes(SALT_LENGTH).toString('hex');
+    const hash = crypto.scryptSync(password, salt, KEY_LENGTH).toString('hex');
+    return { salt, hash };
+}
+
+export function verifyPassword(password: string, stored: PasswordHash): boolean {
+    const expected = Buffer.from(stored.hash, 'hex');
+    const actual = crypto.scryptSync(password, stored.salt, expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+// Server-generated tokens are random enough that a plain digest will do,
+// and it's cheap to check inside room updates that may be retried
+export function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function verifyToken(token: string, stored: string): boolean {
+    const expected = Buffer.from(stored, 'hex');
+    const actual = crypto.createHash('sha256').update(token).digest();
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
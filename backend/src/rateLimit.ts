@@ -0,0 +1,156 @@
+import { Request, RequestHandler } from 'express';
+import { isIPv6 } from 'net';
+import { SignalingMessageType } from './types';
+
+// A bucket holds up to `capacity` tokens and regains them over `perSeconds`
+export interface BucketConfig {
+    capacity: number;
+    perSeconds: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Buckets are configured as "<capacity>/<seconds>", e.g. RATE_LIMIT_CREATE_ROOM=10/60
+function envBucket(name: string, fallback: BucketConfig): BucketConfig {
+    const match = process.env[name]?.match(/^\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*$/);
+    if (!match || Number(match[1]) <= 0 || Number(match[2]) <= 0) return fallback;
+    return { capacity: Number(match[1]), perSeconds: Number(match[2]) };
+}
+
+export const QUOTAS = {
+    maxPayloadBytes: envNumber('MAX_WS_PAYLOAD_BYTES', 256 * 1024),
+    maxConnectionsPerIp: envNumber('MAX_CONNECTIONS_PER_IP', 20),
+    maxPeersPerRoom: envNumber('MAX_PEERS_PER_ROOM', 50),
+    maxRooms: envNumber('MAX_ROOMS', 10000),
+};
+
+// Per-type buckets for each connection; override with RATE_LIMIT_WS_<TYPE>
+const MESSAGE_DEFAULTS: Partial<Record<SignalingMessageType, BucketConfig>> = {
+    join: { capacity: 10, perSeconds: 60 },
+    resume: { capacity: 10, perSeconds: 60 },
+    leave: { capacity: 10, perSeconds: 60 },
+    offer: { capacity: 20, perSeconds: 10 },
+    answer: { capacity: 20, perSeconds: 10 },
+    candidate: { capacity: 200, perSeconds: 10 },
+    kick: { capacity: 30, perSeconds: 60 },
+    ban: { capacity: 30, perSeconds: 60 },
+    lock: { capacity: 30, perSeconds: 60 },
+    unlock: { capacity: 30, perSeconds: 60 },
+    approve: { capacity: 60, perSeconds: 60 },
+    deny: { capacity: 60, perSeconds: 60 },
+    'relay-key': { capacity: 30, perSeconds: 60 },
+    relay: { capacity: 300, perSeconds: 10 },
+    'relay-ack': { capacity: 300, perSeconds: 10 },
+};
+
+export const RATE_LIMITS = {
+    // Per IP
+    http: envBucket('RATE_LIMIT_HTTP', { capacity: 60, perSeconds: 60 }),
+    createRoom: envBucket('RATE_LIMIT_CREATE_ROOM', { capacity: 10, perSeconds: 60 }),
+    connect: envBucket('RATE_LIMIT_WS_CONNECT', { capacity: 30, perSeconds: 60 }),
+    // Per connection, across all message types
+    messages: envBucket('RATE_LIMIT_WS_MESSAGES', { capacity: 300, perSeconds: 10 }),
+    // Per room, in bytes of relayed ciphertext
+    relayBytes: envBucket('RATE_LIMIT_RELAY_BYTES', { capacity: 256 * 1024 * 1024, perSeconds: 3600 }),
+    messageTypes: Object.fromEntries(
+        Object.entries(MESSAGE_DEFAULTS).map(([type, fallback]) => [
+            type,
+            envBucket(`RATE_LIMIT_WS_${type.toUpperCase().replace(/-/g, '_')}`, fallback!),
+        ]),
+    ) as Partial<Record<SignalingMessageType, BucketConfig>>,
+};
+
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt = Date.now();
+
+    constructor(private config: BucketConfig) {
+        this.tokens = config.capacity;
+    }
+
+    // Takes tokens; returns 0 on success, otherwise ms until enough are available
+    take(amount = 1): number {
+        this.refill();
+        if (this.tokens >= amount) {
+            this.tokens -= amount;
+            return 0;
+        }
+        return Math.ceil((amount - this.tokens) * this.msPerToken());
+    }
+
+    isFull(): boolean {
+        this.refill();
+        return this.tokens >= this.config.capacity;
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.config.capacity, this.tokens + (now - this.updatedAt) / this.msPerToken());
+        this.updatedAt = now;
+    }
+
+    private msPerToken(): number {
+        return (this.config.perSeconds * 1000) / this.config.capacity;
+    }
+}
+
+// One bucket per key (an IP address, usually)
+export class RateLimiter {
+    private buckets: Map<string, TokenBucket> = new Map();
+
+    constructor(private config: BucketConfig) {}
+
+    take(key: string, amount = 1): number {
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new TokenBucket(this.config);
+            this.buckets.set(key, bucket);
+        }
+        return bucket.take(amount);
+    }
+
+    // Full buckets behave exactly like new ones, so they can be dropped
+    prune(): void {
+        this.buckets.forEach((bucket, key) => {
+            if (bucket.isFull()) this.buckets.delete(key);
+        });
+    }
+}
+
+// The key per-IP limits count a client under. IPv4-mapped addresses are
+// unwrapped, and IPv6 clients are grouped by their /64, since a single host
+// usually gets a whole prefix and could otherwise rotate through it.
+export function limitKey(address: string | undefined): string {
+    if (!address) return 'unknown';
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) return mapped[1];
+    if (!isIPv6(address)) return address;
+
+    const [head, tail = ''] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = address.includes('::') && tail ? tail.split(':') : [];
+    const groups = [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+    return `${groups.slice(0, 4).map(group => parseInt(group, 16).toString(16)).join(':')}::/64`;
+}
+
+// Seconds to wait, for Retry-After headers and error payloads
+export function toRetryAfter(waitMs: number): number {
+    return Math.max(1, Math.ceil(waitMs / 1000));
+}
+
+export function httpRateLimit(limiter: RateLimiter, keyOf: (req: Request) => string): RequestHandler {
+    return (req, res, next) => {
+        const waitMs = limiter.take(keyOf(req));
+        if (!waitMs) {
+            next();
+            return;
+        }
+
+        const retryAfter = toRetryAfter(waitMs);
+        res.set('Retry-After', String(retryAfter));
+        res.status(429).json({ error: 'Too many requests', code: 'RATE_LIMITED', retryAfter });
+    };
+}
@@ -0,0 +1,83 @@
+import Redis from 'ioredis';
+import { Broker } from './broker';
+
+// Atomic compare-and-set; an empty ARGV means "no value"
+const COMPARE_AND_SET = `
+local current = redis.call('GET', KEYS[1])
+if (current == false and ARGV[1] == '') or current == ARGV[1] then
+    if ARGV[2] == '' then
+        redis.call('DEL', KEYS[1])
+    else
+        redis.call('SET', KEYS[1], ARGV[2])
+    end
+    return 1
+end
+return 0
+`;
+
+export class RedisBroker implements Broker {
+    private client: Redis;
+    private subscriber: Redis;
+    private handlers: Map<string, Set<(message: string) => void>> = new Map();
+
+    constructor(url: string) {
+        this.client = new Redis(url);
+        // Subscribed connections can't issue other commands
+        this.subscriber = this.client.duplicate();
+
+        this.subscriber.on('message', (channel: string, message: string) => {
+            this.handlers.get(channel)?.forEach(handler => handler(message));
+        });
+    }
+
+    async get(key: string): Promise<string | null> {
+        return this.client.get(key);
+    }
+
+    async keys(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        let cursor = '0';
+        do {
+            const [next, batch] = await this.client.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', 100);
+            keys.push(...batch);
+            cursor = next;
+        } while (cursor !== '0');
+        return keys;
+    }
+
+    async compareAndSet(key: string, expected: string | null, value: string | null): Promise<boolean> {
+        const result = await this.client.eval(COMPARE_AND_SET, 1, key, expected ?? '', value ?? '');
+        return result === 1;
+    }
+
+    async publish(channel: string, message: string): Promise<void> {
+        await this.client.publish(channel, message);
+    }
+
+    async subscribe(channel: string, handler: (message: string) => void): Promise<() => Promise<void>> {
+        let handlers = this.handlers.get(channel);
+        if (!handlers) {
+            handlers = new Set();
+            this.handlers.set(channel, handlers);
+            await this.subscriber.subscribe(channel);
+        }
+        handlers.add(handler);
+
+        return async () => {
+            handlers!.delete(handler);
+            if (handlers!.size === 0) {
+                this.handlers.delete(channel);
+                await this.subscriber.unsubscribe(channel);
+            }
+        };
+    }
+
+    async ping(): Promise<void> {
+        await this.client.ping();
+    }
+
+    async close(): Promise<void> {
+        this.subscriber.disconnect();
+        this.client.disconnect();
+    }
+}
@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+
+// Shared by every server instance that should accept the same tokens
+const RESUME_SECRET = process.env.RESUME_SECRET || crypto.randomBytes(32).toString('hex');
+const RESUME_TOKEN_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', RESUME_SECRET).update(data).digest('base64url');
+}
+
+// Token format: <peerId>.<expiresAt>.<signature>
+export function createResumeToken(peerId: string): string {
+    const data = `${peerId}.${Date.now() + RESUME_TOKEN_TTL}`;
+    return `${data}.${sign(data)}`;
+}
+
+// Returns the peer ID the token was issued to, or null if it is forged or expired
+export function verifyResumeToken(token: string): string | null {
+    const lastDot = token.lastIndexOf('.');
+    if (lastDot <= 0) return null;
+
+    const data = token.slice(0, lastDot);
+    const expected = Buffer.from(sign(data));
+    const actual = Buffer.from(token.slice(lastDot + 1));
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+    const separator = data.lastIndexOf('.');
+    const peerId = data.slice(0, separator);
+    const expiresAt = Number(data.slice(separator + 1));
+    if (!peerId || !Number.isFinite(expiresAt) || expiresAt < Date.now()) return null;
+
+    return peerId;
+}
@@ -1,162 +1,792 @@
-import { Room, ExtendedWebSocket, PeerInfo, PeerListMessage, PeerJoinedMessage, PeerLeftMessage } from './types';
+import {
+    Room,
+    PeerRecord,
+    NodeEnvelope,
+    ExtendedWebSocket,
+    PeerInfo,
+    PeerListMessage,
+    PeerJoinedMessage,
+    PeerLeftMessage,
+    PeerLeftReason,
+    RoomStateMessage,
+    KnockMessage,
+    KnockCancelledMessage,
+    LobbyStatusMessage,
+    JoinMessage,
+    ErrorMessage,
+    ErrorCode,
+} from './types';
+import { hashPassword, hashToken, verifyPassword, verifyToken } from './password';
+import { RoomStore } from './roomStore';
+import { QUOTAS } from './rateLimit';
+import { metrics } from './metrics';
+
+interface RoomQuotas {
+    maxPeersPerRoom: number;
+    maxRooms: number;
+}
+
+// Relayed frames wait while the target's socket has this much queued
+const DRAIN_HIGH_WATER_BYTES = 1024 * 1024;
+const DRAIN_POLL_MS = 20;
+
+interface CreateRoomOptions {
+    password?: string;
+    hostToken?: string;
+    lobby?: boolean;
+}
 
-class RoomManager {
-    private rooms: Map<string, Room> = new Map();
+export class RoomManager {
+    // Sockets held by this instance, by peer id (room members and lobby peers)
+    private sockets: Map<string, ExtendedWebSocket> = new Map();
+    private detached: Map<string, { ws: ExtendedWebSocket; timer: NodeJS.Timeout }> = new Map();
+    private closed = false;
 
-    createRoom(roomId: string): Room {
-        const room: Room = {
+    constructor(private store: RoomStore, private quotas: RoomQuotas = QUOTAS) {}
+
+    // Start receiving envelopes from other instances
+    async init(): Promise<void> {
+        await this.store.onEnvelope((envelope) => this.handleEnvelope(envelope));
+    }
+
+    async close(): Promise<void> {
+        this.closed = true;
+        this.detached.forEach(({ timer }) => clearTimeout(timer));
+        this.detached.clear();
+        await this.store.close();
+    }
+
+    async createRoom(roomId: string, options: CreateRoomOptions = {}): Promise<Room> {
+        const room = this.buildRoom(roomId, options);
+        await this.store.updateRoom(roomId, () => room);
+        return room;
+    }
+
+    private buildRoom(roomId: string, options: CreateRoomOptions = {}): Room {
+        return {
             id: roomId,
-            peers: new Map(),
+            peers: [],
             createdAt: Date.now(),
+            password: options.password ? hashPassword(options.password) : undefined,
+            hostToken: options.hostToken ? hashToken(options.hostToken) : undefined,
+            locked: false,
+            bannedAddresses: [],
+            lobbyEnabled: !!options.lobby,
+            lobby: [],
         };
-        this.rooms.set(roomId, room);
-        return room;
     }
 
-    getRoom(roomId: string): Room | undefined {
-        return this.rooms.get(roomId);
+    getRoom(roomId: string): Promise<Room | undefined> {
+        return this.store.getRoom(roomId);
     }
 
-    roomExists(roomId: string): boolean {
-        return this.rooms.has(roomId);
+    async roomExists(roomId: string): Promise<boolean> {
+        return !!(await this.store.getRoom(roomId));
     }
 
-    joinRoom(roomId: string, ws: ExtendedWebSocket): boolean {
-        let room = this.rooms.get(roomId);
+    // Detached peers count until their grace period runs out
+    async isMember(roomId: string, peerId: string): Promise<boolean> {
+        const room = await this.store.getRoom(roomId);
+        return !!room?.peers.some(peer => peer.id === peerId);
+    }
 
-        // Auto-create room if it doesn't exist
-        if (!room) {
-            room = this.createRoom(roomId);
+    async canCreateRoom(): Promise<boolean> {
+        return (await this.getRoomCount()) < this.quotas.maxRooms;
+    }
+
+    // Check whether a peer may enter the room; returns an error code if not.
+    // joinRoom and enterLobby check the room's state again as they add the
+    // peer, since it may change in between.
+    async authorizeJoin(roomId: string, ws: ExtendedWebSocket, credentials: JoinMessage['payload'] = {}): Promise<ErrorCode | null> {
+        const room = await this.store.getRoom(roomId);
+        if (!room) return await this.canCreateRoom() ? null : 'ROOM_FULL';
+
+        const admissionError = this.admissionError(room, ws, credentials.hostToken);
+        if (admissionError) return admissionError;
+
+        if (room.password) {
+            if (!credentials.password) return 'AUTH_REQUIRED';
+            if (!verifyPassword(credentials.password, room.password)) return 'AUTH_FAILED';
         }
 
-        // Add peer to room
-        room.peers.set(ws.id, ws);
-        ws.roomId = roomId;
+        return null;
+    }
 
-        // Notify existing peers about new peer
-        const newPeerInfo: PeerInfo = {
-            id: ws.id,
-            username: ws.username,
-            joinedAt: Date.now(),
+    async isHost(ws: ExtendedWebSocket): Promise<boolean> {
+        if (!ws.roomId) return false;
+        return (await this.store.getRoom(ws.roomId))?.hostId === ws.id;
+    }
+
+    // Room state that can keep a peer out; pure, so it can run inside updaters
+    private admissionError(room: Room, ws: ExtendedWebSocket, hostToken?: string): ErrorCode | null {
+        if (ws.address && room.bannedAddresses.includes(ws.address)) return 'BANNED';
+        if (room.locked && !this.isHostToken(room, hostToken)) return 'ROOM_LOCKED';
+        // Lobby peers hold a place too, so approving them can't overfill the room
+        const others = [...room.peers, ...room.lobby].filter(p => p.id !== ws.id);
+        if (others.length >= this.quotas.maxPeersPerRoom) return 'ROOM_FULL';
+        return null;
+    }
+
+    private isHostToken(room: Room, hostToken?: string): boolean {
+        return !!room.hostToken && !!hostToken && verifyToken(hostToken, room.hostToken);
+    }
+
+    // Lobby rooms hold everyone except the creator until the host lets them in
+    async requiresApproval(roomId: string, hostToken?: string): Promise<boolean> {
+        const room = await this.store.getRoom(roomId);
+        return !!room?.lobbyEnabled && !this.isHostToken(room, hostToken);
+    }
+
+    // Returns an error code if the room no longer admits the peer
+    async enterLobby(roomId: string, ws: ExtendedWebSocket): Promise<ErrorCode | null> {
+        const entry = this.toRecord(ws);
+        const result: { error: ErrorCode | null } = { error: null };
+        const room = await this.store.updateRoom(roomId, (room) => {
+            result.error = room ? this.admissionError(room, ws) : null;
+            if (!room || result.error) return room;
+
+            room.lobby = [...room.lobby.filter(p => p.id !== ws.id), entry];
+            return room;
+        });
+        if (result.error) return result.error;
+        if (!room) return null;
+
+        this.sockets.set(ws.id, ws);
+        ws.lobbyRoomId = roomId;
+
+        const waitingMessage: LobbyStatusMessage = {
+            type: 'lobby-waiting',
+            roomId,
+            senderId: 'server',
         };
+        ws.send(JSON.stringify(waitingMessage));
+
+        const host = this.getHost(room);
+        if (host) {
+            await this.deliver([host], JSON.stringify(this.getKnockMessage(room, entry)));
+        }
+        return null;
+    }
+
+    // Host answers a knock: approved peers join normally, denied peers are told so
+    async answerKnock(ws: ExtendedWebSocket, targetId: string, approved: boolean): Promise<boolean> {
+        const roomId = ws.roomId;
+        if (!roomId) return false;
+
+        // Captured through an object since the updater may run more than once
+        const result: { target?: PeerRecord } = {};
+        await this.store.updateRoom(roomId, (room) => {
+            result.target = room?.lobby.find(p => p.id === targetId);
+            if (!room || !result.target) return room;
+
+            room.lobby = room.lobby.filter(p => p.id !== targetId);
+            return room;
+        });
+
+        const target = result.target;
+        if (!target) return false;
+
+        if (approved) {
+            await this.sendEnvelope(target.nodeId, { kind: 'admit', peerId: target.id, roomId });
+        } else {
+            const deniedMessage: LobbyStatusMessage = {
+                type: 'lobby-denied',
+                roomId,
+                senderId: 'server',
+            };
+            await this.deliver([target], JSON.stringify(deniedMessage));
+            await this.sendEnvelope(target.nodeId, { kind: 'evict', peerId: target.id });
+        }
+
+        return true;
+    }
+
+    private getKnockMessage(room: Room, entry: PeerRecord): KnockMessage {
+        return {
+            type: 'knock',
+            roomId: room.id,
+            senderId: 'server',
+            payload: {
+                peerId: entry.id,
+                username: entry.username,
+                requestedAt: entry.joinedAt,
+            },
+        };
+    }
+
+    // Bring a newly assigned host up to date with everyone still waiting
+    private async sendPendingKnocks(room: Room): Promise<void> {
+        const host = this.getHost(room);
+        if (!host) return;
+
+        for (const waiting of room.lobby) {
+            await this.deliver([host], JSON.stringify(this.getKnockMessage(room, waiting)));
+        }
+    }
 
+    private async leaveLobby(ws: ExtendedWebSocket): Promise<void> {
+        const roomId = ws.lobbyRoomId!;
+        ws.lobbyRoomId = undefined;
+        this.forget(ws);
+
+        await this.removeFromLobby(roomId, ws.id);
+    }
+
+    private async removeFromLobby(roomId: string, peerId: string): Promise<PeerRecord | undefined> {
+        const result: { removed?: PeerRecord } = {};
+        const room = await this.store.updateRoom(roomId, (room) => {
+            result.removed = room?.lobby.find(p => p.id === peerId);
+            if (!room || !result.removed) return room;
+
+            room.lobby = room.lobby.filter(p => p.id !== peerId);
+            return room;
+        });
+
+        const host = room && this.getHost(room);
+        if (result.removed && host) {
+            const cancelledMessage: KnockCancelledMessage = {
+                type: 'knock-cancelled',
+                roomId,
+                senderId: 'server',
+                payload: { peerId },
+            };
+            await this.deliver([host], JSON.stringify(cancelledMessage));
+        }
+
+        return result.removed;
+    }
+
+    // Returns an error code if the room no longer admits the peer; peers the
+    // host let in from the lobby are admitted regardless
+    async joinRoom(roomId: string, ws: ExtendedWebSocket, hostToken?: string, admitted = false): Promise<ErrorCode | null> {
+        const member = this.toRecord(ws);
+        const result: { hostChanged: boolean; error: ErrorCode | null } = { hostChanged: false, error: null };
+
+        const room = (await this.store.updateRoom(roomId, (current) => {
+            // Auto-create room if it doesn't exist
+            const room = current ?? this.buildRoom(roomId);
+
+            result.error = admitted ? null : this.admissionError(room, ws, hostToken);
+            if (result.error) return current;
+
+            // Add peer to room
+            room.peers = [...room.peers.filter(p => p.id !== ws.id), member];
+
+            // The creator (holding the host token) always takes the host role;
+            // otherwise the first peer into a hostless room becomes host
+            result.hostChanged = this.isHostToken(room, hostToken) || !room.hostId;
+            if (result.hostChanged) {
+                room.hostId = ws.id;
+            }
+            return room;
+        }))!;
+        if (result.error) return result.error;
+
+        ws.roomId = roomId;
+        this.sockets.set(ws.id, ws);
+        metrics.joins.inc();
+
+        // Notify existing peers about new peer
         const peerJoinedMessage: PeerJoinedMessage = {
             type: 'peer-joined',
             roomId,
             senderId: 'server',
-            payload: newPeerInfo,
+            payload: this.toPeerInfo(member),
         };
 
-        this.broadcastToRoom(roomId, JSON.stringify(peerJoinedMessage), ws.id);
+        await this.broadcast(room, JSON.stringify(peerJoinedMessage), ws.id);
 
         // Send peer list to the new peer
-        const peerList = this.getPeerList(roomId);
+        this.sendPeerList(room, ws);
+
+        if (result.hostChanged) {
+            await this.broadcast(room, JSON.stringify(this.getRoomStateMessage(room)));
+            await this.sendPendingKnocks(room);
+        } else {
+            ws.send(JSON.stringify(this.getRoomStateMessage(room)));
+        }
+
+        return null;
+    }
+
+    private sendPeerList(room: Room, ws: ExtendedWebSocket): void {
         const peerListMessage: PeerListMessage = {
             type: 'peer-list',
-            roomId,
+            roomId: room.id,
             senderId: 'server',
-            payload: peerList,
+            payload: room.peers.map(p => this.toPeerInfo(p)),
         };
 
         ws.send(JSON.stringify(peerListMessage));
+    }
 
-        return true;
+    // Keep a dropped peer's membership for a grace period so it can resume
+    // without the rest of the room seeing it leave and rejoin
+    async detachPeer(ws: ExtendedWebSocket, graceMs: number): Promise<void> {
+        // Sockets closed during shutdown; a grace timer now would hold the process open
+        if (this.closed) return;
+        if (!ws.roomId) {
+            await this.leaveRoom(ws);
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            this.detached.delete(ws.id);
+            this.leaveRoom(ws).catch((error) => {
+                console.error(`[WS] Failed to remove detached peer ${ws.id}:`, error);
+            });
+        }, graceMs);
+
+        this.detached.set(ws.id, { ws, timer });
     }
 
-    leaveRoom(ws: ExtendedWebSocket): void {
-        if (!ws.roomId) return;
+    // Move a peer's identity and membership onto a new socket, which may be
+    // on a different instance than the one it dropped from
+    async resumePeer(roomId: string, peerId: string, ws: ExtendedWebSocket): Promise<boolean> {
+        const result: { previous?: PeerRecord } = {};
+        await this.store.updateRoom(roomId, (room) => {
+            const record = room?.peers.find(p => p.id === peerId);
+            result.previous = record && { ...record };
+            if (!room || !record) return room;
+
+            record.nodeId = this.store.nodeId;
+            record.address = ws.address;
+            return room;
+        });
+
+        const previous = result.previous;
+        if (!previous) return false;
+
+        // Retire the old socket so its close handler doesn't leave the room
+        if (previous.nodeId === this.store.nodeId) {
+            this.takeOver(peerId);
+        } else {
+            await this.store.publish(previous.nodeId, { kind: 'takeover', peerId });
+        }
+
+        ws.id = peerId;
+        ws.roomId = roomId;
+        ws.username = previous.username;
+        ws.version = previous.version;
+        ws.capabilities = previous.capabilities;
+        this.sockets.set(peerId, ws);
 
-        const room = this.rooms.get(ws.roomId);
+        return true;
+    }
+
+    // Bring a resumed peer up to date with anything it missed while detached
+    async sendRoomSnapshot(ws: ExtendedWebSocket): Promise<void> {
+        const room = ws.roomId ? await this.store.getRoom(ws.roomId) : undefined;
         if (!room) return;
 
-        // Remove peer from room
-        room.peers.delete(ws.id);
+        this.sendPeerList(room, ws);
+        ws.send(JSON.stringify(this.getRoomStateMessage(room)));
+        if (room.hostId === ws.id) {
+            await this.sendPendingKnocks(room);
+        }
+    }
+
+    async leaveRoom(ws: ExtendedWebSocket): Promise<void> {
+        if (ws.lobbyRoomId) {
+            await this.leaveLobby(ws);
+            return;
+        }
+
+        const roomId = ws.roomId;
+        if (!roomId) return;
+
+        ws.roomId = undefined;
+        this.forget(ws);
+
+        // Only drop the record while this instance owns it; a peer that
+        // resumed elsewhere has already moved on
+        await this.removeMember(roomId, ws.id, 'left', (record) => record.nodeId === this.store.nodeId);
+    }
+
+    // Host-only moderation: remove a peer, optionally banning its address.
+    // The removed peer is told why and then disconnected, so it can't go on
+    // using the socket it joined with.
+    async removePeer(ws: ExtendedWebSocket, targetId: string, reason: 'kicked' | 'banned'): Promise<boolean> {
+        if (!ws.roomId) return false;
+
+        const removed = await this.removeMember(ws.roomId, targetId, reason);
+        if (!removed) return false;
 
-        // Notify remaining peers
         const peerLeftMessage: PeerLeftMessage = {
             type: 'peer-left',
             roomId: ws.roomId,
             senderId: 'server',
-            payload: { peerId: ws.id },
+            payload: { peerId: removed.id, reason },
         };
+        await this.sendEnvelope(removed.nodeId, { kind: 'disconnect', peerId: removed.id, data: JSON.stringify(peerLeftMessage) });
+        return true;
+    }
+
+    private async removeMember(
+        roomId: string,
+        peerId: string,
+        reason: PeerLeftReason,
+        canRemove: (record: PeerRecord) => boolean = () => true,
+    ): Promise<PeerRecord | undefined> {
+        const result: { removed?: PeerRecord; hostChanged: boolean } = { hostChanged: false };
+
+        const room = await this.store.updateRoom(roomId, (room) => {
+            const record = room?.peers.find(p => p.id === peerId);
+            result.removed = undefined;
+            result.hostChanged = false;
+            if (!room || !record || !canRemove(record)) return room;
 
-        this.broadcastToRoom(ws.roomId, JSON.stringify(peerLeftMessage));
+            result.removed = record;
+
+            // Remove peer from room
+            room.peers = room.peers.filter(p => p.id !== peerId);
+
+            if (reason === 'banned' && record.address && !room.bannedAddresses.includes(record.address)) {
+                room.bannedAddresses.push(record.address);
+            }
 
-        // Clean up empty rooms
-        if (room.peers.size === 0) {
-            this.rooms.delete(ws.roomId);
+            // Hand the host role to the longest-present peer
+            if (room.hostId === peerId) {
+                room.hostId = room.peers[0]?.id;
+                result.hostChanged = true;
+            }
+
+            // Clean up empty rooms (protected rooms stay until stale cleanup so the
+            // next joiner can't recreate them without a password or the lobby)
+            if (room.peers.length === 0 && !room.password && !room.lobbyEnabled) {
+                return undefined;
+            }
+            return room;
+        });
+
+        const removed = result.removed;
+        if (!removed) return undefined;
+
+        metrics.leaves.inc({ reason });
+
+        // Notify everyone left; a peer the host removed hears it on the way out
+        const peerLeftMessage: PeerLeftMessage = {
+            type: 'peer-left',
+            roomId,
+            senderId: 'server',
+            payload: { peerId, reason },
+        };
+
+        if (room) {
+            await this.broadcast(room, JSON.stringify(peerLeftMessage));
+
+            if (result.hostChanged) {
+                await this.broadcast(room, JSON.stringify(this.getRoomStateMessage(room)));
+                await this.sendPendingKnocks(room);
+            }
         }
 
-        ws.roomId = undefined;
+        return removed;
     }
 
-    getPeerList(roomId: string): PeerInfo[] {
-        const room = this.rooms.get(roomId);
-        if (!room) return [];
+    // Operator action: tell a member or lobby peer why, then close its socket
+    async disconnectPeer(roomId: string, peerId: string, reason: string): Promise<boolean> {
+        const removed = await this.removeMember(roomId, peerId, 'disconnected')
+            ?? await this.removeFromLobby(roomId, peerId);
+        if (!removed) return false;
 
-        const peers: PeerInfo[] = [];
-        room.peers.forEach((ws, id) => {
-            peers.push({
-                id,
-                username: ws.username,
-                joinedAt: Date.now(), // We don't track join time per peer, using current time
-            });
+        await this.sendEnvelope(removed.nodeId, {
+            kind: 'disconnect',
+            peerId,
+            data: JSON.stringify(this.getServerError(roomId, 'DISCONNECTED', reason)),
         });
+        return true;
+    }
+
+    // Operator action: delete the room and disconnect everyone in it;
+    // returns how many peers were disconnected, or undefined if there was no room
+    async closeRoom(roomId: string, reason: string): Promise<number | undefined> {
+        const result: { room?: Room } = {};
+        await this.store.updateRoom(roomId, (room) => {
+            result.room = room;
+            return undefined;
+        });
+
+        const room = result.room;
+        if (!room) return undefined;
+
+        const data = JSON.stringify(this.getServerError(roomId, 'ROOM_CLOSED', reason));
+        for (const peer of [...room.peers, ...room.lobby]) {
+            await this.sendEnvelope(peer.nodeId, { kind: 'disconnect', peerId: peer.id, data });
+        }
+        room.peers.forEach(() => metrics.leaves.inc({ reason: 'disconnected' }));
 
-        return peers;
+        return room.peers.length + room.lobby.length;
     }
 
-    broadcastToRoom(roomId: string, message: string, excludePeerId?: string): void {
-        const room = this.rooms.get(roomId);
-        if (!room) return;
+    private getServerError(roomId: string, code: ErrorCode, message: string): ErrorMessage {
+        return {
+            type: 'error',
+            roomId,
+            senderId: 'server',
+            payload: { code, message },
+        };
+    }
 
-        room.peers.forEach((ws, id) => {
-            if (id !== excludePeerId && ws.readyState === ws.OPEN) {
-                ws.send(message);
-            }
+    async setLocked(roomId: string, locked: boolean): Promise<void> {
+        const room = await this.store.updateRoom(roomId, (room) => {
+            if (room) room.locked = locked;
+            return room;
         });
+        if (!room) return;
+
+        await this.broadcast(room, JSON.stringify(this.getRoomStateMessage(room)));
     }
 
-    sendToPeer(roomId: string, peerId: string, message: string): boolean {
-        const room = this.rooms.get(roomId);
-        if (!room) return false;
+    private getRoomStateMessage(room: Room): RoomStateMessage {
+        return {
+            type: 'room-state',
+            roomId: room.id,
+            senderId: 'server',
+            payload: { hostId: room.hostId, locked: room.locked, lobby: room.lobbyEnabled },
+        };
+    }
 
-        const peer = room.peers.get(peerId);
-        if (!peer || peer.readyState !== peer.OPEN) return false;
+    private getHost(room: Room): PeerRecord | undefined {
+        return room.peers.find(p => p.id === room.hostId);
+    }
 
-        peer.send(message);
+    private toRecord(ws: ExtendedWebSocket): PeerRecord {
+        return {
+            id: ws.id,
+            username: ws.username,
+            address: ws.address,
+            nodeId: this.store.nodeId,
+            joinedAt: Date.now(),
+            version: ws.version,
+            capabilities: ws.capabilities,
+        };
+    }
+
+    private toPeerInfo(record: PeerRecord): PeerInfo {
+        return {
+            id: record.id,
+            username: record.username,
+            joinedAt: record.joinedAt,
+            version: record.version,
+            capabilities: record.capabilities,
+        };
+    }
+
+    async getPeerList(roomId: string): Promise<PeerInfo[]> {
+        const room = await this.store.getRoom(roomId);
+        return room ? room.peers.map(p => this.toPeerInfo(p)) : [];
+    }
+
+    async broadcastToRoom(roomId: string, message: string, excludePeerId?: string): Promise<void> {
+        const room = await this.store.getRoom(roomId);
+        if (!room) return;
+
+        await this.broadcast(room, message, excludePeerId);
+    }
+
+    private async broadcast(room: Room, message: string, excludePeerId?: string): Promise<void> {
+        await this.deliver(room.peers.filter(p => p.id !== excludePeerId), message);
+    }
+
+    // With `drain`, wait for a local target's socket to flush first, so a slow
+    // receiver holds back the sender's queue instead of filling server memory
+    async sendToPeer(roomId: string, peerId: string, message: string, options: { drain?: boolean } = {}): Promise<boolean> {
+        const room = await this.store.getRoom(roomId);
+        const peer = room?.peers.find(p => p.id === peerId);
+        if (!peer) return false;
+
+        if (peer.nodeId !== this.store.nodeId) {
+            await this.store.publish(peer.nodeId, { kind: 'deliver', peerIds: [peerId], data: message });
+            return true;
+        }
+
+        const ws = this.sockets.get(peerId);
+        if (options.drain && ws) {
+            while (ws.readyState === ws.OPEN && ws.bufferedAmount > DRAIN_HIGH_WATER_BYTES) {
+                await new Promise(resolve => setTimeout(resolve, DRAIN_POLL_MS));
+            }
+        }
+        if (!ws || ws.readyState !== ws.OPEN) return false;
+
+        ws.send(message);
         return true;
     }
 
+    // Only sockets held by this instance are reachable directly; lobby peers count
     getPeerSocket(roomId: string, peerId: string): ExtendedWebSocket | undefined {
-        const room = this.rooms.get(roomId);
-        if (!room) return undefined;
-        return room.peers.get(peerId);
+        const ws = this.sockets.get(peerId);
+        return ws && (ws.roomId === roomId || ws.lobbyRoomId === roomId) ? ws : undefined;
     }
 
-    getRoomCount(): number {
-        return this.rooms.size;
-    }
+    // Send to local sockets directly and batch the rest per instance
+    private async deliver(peers: PeerRecord[], message: string): Promise<void> {
+        const remote: Map<string, string[]> = new Map();
 
-    getTotalPeerCount(): number {
-        let count = 0;
-        this.rooms.forEach((room) => {
-            count += room.peers.size;
+        peers.forEach((peer) => {
+            if (peer.nodeId === this.store.nodeId) {
+                this.sendLocal(peer.id, message);
+            } else {
+                remote.set(peer.nodeId, [...(remote.get(peer.nodeId) || []), peer.id]);
+            }
         });
-        return count;
+
+        for (const [nodeId, peerIds] of remote) {
+            await this.store.publish(nodeId, { kind: 'deliver', peerIds, data: message });
+        }
+    }
+
+    private sendLocal(peerId: string, message: string): void {
+        const ws = this.sockets.get(peerId);
+        if (ws && ws.readyState === ws.OPEN) {
+            ws.send(message);
+        }
+    }
+
+    private async sendEnvelope(nodeId: string, envelope: NodeEnvelope): Promise<void> {
+        if (nodeId === this.store.nodeId) {
+            this.handleEnvelope(envelope);
+        } else {
+            await this.store.publish(nodeId, envelope);
+        }
+    }
+
+    private handleEnvelope(envelope: NodeEnvelope): void {
+        switch (envelope.kind) {
+            case 'deliver':
+                envelope.peerIds.forEach(peerId => this.sendLocal(peerId, envelope.data));
+                break;
+
+            case 'evict':
+                this.evict(envelope.peerId);
+                break;
+
+            case 'admit': {
+                const ws = this.sockets.get(envelope.peerId);
+                if (!ws || ws.lobbyRoomId !== envelope.roomId) return;
+
+                ws.lobbyRoomId = undefined;
+                this.joinRoom(envelope.roomId, ws, undefined, true).catch((error) => {
+                    console.error(`[WS] Failed to admit ${ws.id} to room ${envelope.roomId}:`, error);
+                });
+                break;
+            }
+
+            case 'takeover':
+                this.takeOver(envelope.peerId);
+                break;
+
+            case 'disconnect':
+                this.disconnect(envelope.peerId, envelope.data);
+                break;
+        }
+    }
+
+    // The peer's record is already gone; drop its local membership so a
+    // later close doesn't try to leave again
+    private evict(peerId: string): void {
+        this.clearDetached(peerId);
+
+        const ws = this.sockets.get(peerId);
+        if (!ws) return;
+
+        ws.roomId = undefined;
+        ws.lobbyRoomId = undefined;
+        this.sockets.delete(peerId);
+    }
+
+    // The peer resumed on a new socket; retire the one this instance holds
+    private takeOver(peerId: string): void {
+        const previous = this.clearDetached(peerId) ?? this.sockets.get(peerId);
+        if (!previous) return;
+
+        // Clearing roomId stops the old socket's close handler from leaving the room
+        previous.roomId = undefined;
+        this.forget(previous);
+        if (previous.readyState === previous.OPEN) {
+            previous.terminate();
+        }
+    }
+
+    // The peer's record is already gone; send a last message and hang up
+    private disconnect(peerId: string, message: string): void {
+        const ws = this.clearDetached(peerId) ?? this.sockets.get(peerId);
+        this.evict(peerId);
+        if (!ws || ws.readyState !== ws.OPEN) return;
+
+        ws.send(message);
+        ws.close(1000, 'Disconnected by the server');
+    }
+
+    private clearDetached(peerId: string): ExtendedWebSocket | undefined {
+        const pending = this.detached.get(peerId);
+        if (!pending) return undefined;
+
+        clearTimeout(pending.timer);
+        this.detached.delete(peerId);
+        return pending.ws;
+    }
+
+    private forget(ws: ExtendedWebSocket): void {
+        if (this.sockets.get(ws.id) === ws) {
+            this.sockets.delete(ws.id);
+        }
+    }
+
+    listRooms(): Promise<Room[]> {
+        return this.store.listRooms();
+    }
+
+    // Peers in each open room, for metrics
+    async getRoomSizes(): Promise<number[]> {
+        return (await this.store.listRooms()).map(room => room.peers.length);
+    }
+
+    get nodeId(): string {
+        return this.store.nodeId;
+    }
+
+    ping(): Promise<void> {
+        return this.store.ping();
+    }
+
+    async getRoomCount(): Promise<number> {
+        return (await this.store.listRooms()).length;
+    }
+
+    async getTotalPeerCount(): Promise<number> {
+        const rooms = await this.store.listRooms();
+        return rooms.reduce((count, room) => count + room.peers.length, 0);
+    }
+
+    // Remove peers held by instances that stopped heartbeating; their sockets
+    // are gone, so nothing else would ever take them out of their rooms
+    async reapDeadNodes(): Promise<number> {
+        const live = new Set(await this.store.liveNodes());
+        const isDead = (record: PeerRecord) => !live.has(record.nodeId);
+        let reaped = 0;
+
+        for (const room of await this.store.listRooms()) {
+            for (const peer of room.peers.filter(isDead)) {
+                // Skipped if the peer resumed on a live instance in the meantime
+                if (await this.removeMember(room.id, peer.id, 'disconnected', isDead)) reaped++;
+            }
+            for (const peer of room.lobby.filter(isDead)) {
+                if (await this.removeFromLobby(room.id, peer.id)) reaped++;
+            }
+        }
+        return reaped;
     }
 
     // Clean up stale rooms (rooms older than 24 hours with no peers)
-    cleanupStaleRooms(): void {
-        const now = Date.now();
+    async cleanupStaleRooms(): Promise<void> {
         const maxAge = 24 * 60 * 60 * 1000; // 24 hours
+        const isStale = (room: Room) => room.peers.length === 0 && Date.now() - room.createdAt > maxAge;
 
-        this.rooms.forEach((room, roomId) => {
-            if (room.peers.size === 0 && now - room.createdAt > maxAge) {
-                this.rooms.delete(roomId);
+        for (const room of await this.store.listRooms()) {
+            if (isStale(room)) {
+                await this.store.updateRoom(room.id, (current) => current && isStale(current) ? undefined : current);
             }
-        });
+        }
     }
 }
-
-export const roomManager = new RoomManager();
@@ -0,0 +1,172 @@
+import { Room, NodeEnvelope } from './types';
+import { Broker } from './broker';
+
+// Where room state lives and how server instances reach each other's sockets
+export interface RoomStore {
+    readonly nodeId: string;
+    getRoom(roomId: string): Promise<Room | undefined>;
+    listRooms(): Promise<Room[]>;
+    // Atomically replace a room; the updater gets a private copy and may be
+    // called more than once, so it must not have side effects. Returning
+    // undefined deletes the room.
+    updateRoom(roomId: string, updater: (room: Room | undefined) => Room | undefined): Promise<Room | undefined>;
+    publish(nodeId: string, envelope: NodeEnvelope): Promise<void>;
+    onEnvelope(handler: (envelope: NodeEnvelope) => void): Promise<void>;
+    // Instances that have shown signs of life recently, this one included;
+    // peers held by any other instance are gone for good
+    liveNodes(): Promise<string[]>;
+    // Resolves once the store is reachable
+    ping(): Promise<void>;
+    close(): Promise<void>;
+}
+
+// Single-instance store: every socket lives in this process
+export class MemoryRoomStore implements RoomStore {
+    readonly nodeId = 'local';
+    private rooms: Map<string, Room> = new Map();
+    private handler?: (envelope: NodeEnvelope) => void;
+
+    async getRoom(roomId: string): Promise<Room | undefined> {
+        const room = this.rooms.get(roomId);
+        return room && structuredClone(room);
+    }
+
+    async listRooms(): Promise<Room[]> {
+        return Array.from(this.rooms.values(), room => structuredClone(room));
+    }
+
+    async updateRoom(roomId: string, updater: (room: Room | undefined) => Room | undefined): Promise<Room | undefined> {
+        const current = this.rooms.get(roomId);
+        const next = updater(current && structuredClone(current));
+
+        if (next) {
+            this.rooms.set(roomId, structuredClone(next));
+        } else {
+            this.rooms.delete(roomId);
+        }
+        return next;
+    }
+
+    async publish(_nodeId: string, envelope: NodeEnvelope): Promise<void> {
+        this.handler?.(envelope);
+    }
+
+    async onEnvelope(handler: (envelope: NodeEnvelope) => void): Promise<void> {
+        this.handler = handler;
+    }
+
+    async liveNodes(): Promise<string[]> {
+        return [this.nodeId];
+    }
+
+    async ping(): Promise<void> {}
+
+    async close(): Promise<void> {
+        this.handler = undefined;
+    }
+}
+
+const ROOM_KEY_PREFIX = 'aeroshare:room:';
+const NODE_CHANNEL_PREFIX = 'aeroshare:node:';
+const HEARTBEAT_KEY_PREFIX = 'aeroshare:heartbeat:';
+const MAX_UPDATE_ATTEMPTS = 50;
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+// An instance silent for this long is presumed to have crashed
+const NODE_TTL_MS = 30 * 1000;
+
+// Multi-instance store: rooms live in the broker, and envelopes for sockets
+// held by another instance go out on that instance's channel. Each instance
+// writes a heartbeat while it is subscribed, so the others can tell when it
+// has died with peers still on its books.
+export class SharedRoomStore implements RoomStore {
+    private unsubscribe?: () => Promise<void>;
+    private heartbeatTimer?: NodeJS.Timeout;
+
+    constructor(private broker: Broker, readonly nodeId: string) {}
+
+    async getRoom(roomId: string): Promise<Room | undefined> {
+        const raw = await this.broker.get(ROOM_KEY_PREFIX + roomId);
+        return raw ? JSON.parse(raw) : undefined;
+    }
+
+    async listRooms(): Promise<Room[]> {
+        const keys = await this.broker.keys(ROOM_KEY_PREFIX);
+        const rooms = await Promise.all(keys.map(key => this.getRoom(key.slice(ROOM_KEY_PREFIX.length))));
+        return rooms.filter((room): room is Room => !!room);
+    }
+
+    async updateRoom(roomId: string, updater: (room: Room | undefined) => Room | undefined): Promise<Room | undefined> {
+        const key = ROOM_KEY_PREFIX + roomId;
+
+        // Optimistic concurrency: retry whenever another instance wrote first
+        for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+            const raw = await this.broker.get(key);
+            const next = updater(raw ? JSON.parse(raw) : undefined);
+            const nextRaw = next ? JSON.stringify(next) : null;
+
+            if (nextRaw === raw || await this.broker.compareAndSet(key, raw, nextRaw)) {
+                return next;
+            }
+        }
+
+        throw new Error(`Room ${roomId} is too contended to update`);
+    }
+
+    async publish(nodeId: string, envelope: NodeEnvelope): Promise<void> {
+        await this.broker.publish(NODE_CHANNEL_PREFIX + nodeId, JSON.stringify(envelope));
+    }
+
+    async onEnvelope(handler: (envelope: NodeEnvelope) => void): Promise<void> {
+        await this.unsubscribe?.();
+        this.unsubscribe = await this.broker.subscribe(NODE_CHANNEL_PREFIX + this.nodeId, (message) => {
+            try {
+                handler(JSON.parse(message));
+            } catch (error) {
+                console.error('[Store] Invalid envelope:', error);
+            }
+        });
+
+        await this.heartbeat();
+        this.heartbeatTimer ??= setInterval(() => {
+            this.heartbeat().catch((error) => {
+                console.error('[Store] Heartbeat failed:', error);
+            });
+        }, HEARTBEAT_INTERVAL_MS);
+    }
+
+    // Stale heartbeats are removed as they're found; a node that comes back
+    // simply writes a new one
+    async liveNodes(): Promise<string[]> {
+        const keys = await this.broker.keys(HEARTBEAT_KEY_PREFIX);
+        const live = new Set([this.nodeId]);
+
+        for (const key of keys) {
+            const beat = await this.broker.get(key);
+            if (beat && Date.now() - Number(beat) < NODE_TTL_MS) {
+                live.add(key.slice(HEARTBEAT_KEY_PREFIX.length));
+            } else {
+                await this.broker.compareAndSet(key, beat, null);
+            }
+        }
+        return Array.from(live);
+    }
+
+    private async heartbeat(): Promise<void> {
+        const key = HEARTBEAT_KEY_PREFIX + this.nodeId;
+        await this.broker.compareAndSet(key, await this.broker.get(key), String(Date.now()));
+    }
+
+    async ping(): Promise<void> {
+        await this.broker.ping();
+    }
+
+    // The heartbeat is left to expire rather than deleted, which gives this
+    // instance's detached peers until then to resume elsewhere
+    async close(): Promise<void> {
+        clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = undefined;
+        await this.unsubscribe?.();
+        this.unsubscribe = undefined;
+        await this.broker.close();
+    }
+}
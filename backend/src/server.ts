@@ -2,137 +2,454 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import http from 'http';
+import crypto from 'crypto';
 import { WebSocketServer, WebSocket } from 'ws';
 import { v4 as uuidv4 } from 'uuid';
-import { roomManager } from './roomManager';
+import { RoomManager } from './roomManager';
+import { RoomStore, MemoryRoomStore, SharedRoomStore } from './roomStore';
+import { RedisBroker } from './redisBroker';
+import { createResumeToken, verifyResumeToken } from './resumeToken';
+import { getIceServers } from './iceServers';
+import { createAdminRouter } from './admin';
+import { parseClientMessage, LIMITS } from '../../shared/validation';
+import { QUOTAS, RATE_LIMITS, RateLimiter, TokenBucket, httpRateLimit, limitKey, toRetryAfter } from './rateLimit';
+import { metrics, renderMetrics } from './metrics';
 import {
     ExtendedWebSocket,
     SignalingMessage,
+    JoinMessage,
+    ResumeMessage,
+    RelayMessage,
+    WelcomeMessage,
+    CreateRoomRequest,
     CreateRoomResponse,
     HealthResponse,
+    ProbeResponse,
     ErrorMessage,
+    ErrorCode,
 } from './types';
 
-const app = express();
 const PORT = process.env.PORT || 3001;
 const CORS_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:3000';
+// How long a dropped peer keeps its room membership while it reconnects
+const RESUME_GRACE_MS = Number(process.env.RESUME_GRACE_MS) || 15000;
 
-// Middleware
-app.use(cors({
-    origin: CORS_ORIGIN.split(',').map(s => s.trim()),
-    methods: ['GET', 'POST'],
-    credentials: true,
-}));
-app.use(express.json());
-
-// HTTP Routes
-app.get('/', (_req, res) => {
-    res.json({
-        name: 'AeroShare Signaling Server',
-        version: '1.0.0',
-        status: 'running',
-        endpoints: {
-            health: '/health',
-            createRoom: 'POST /create-room',
-            websocket: 'ws:// or wss://',
-        },
-        cors: CORS_ORIGIN.split(',').map(s => s.trim()),
-        uptime: process.uptime(),
+// Heartbeat interval (30 seconds)
+const HEARTBEAT_INTERVAL = 30000;
+// How often to look for peers held by crashed instances
+const NODE_REAP_INTERVAL = 15000;
+// Suggested wait before retrying a full room or server (seconds)
+const ROOM_FULL_RETRY_AFTER = 30;
+// Opt in to relaying end-to-end encrypted transfers between peers that
+// cannot reach each other directly; this costs the server bandwidth
+const RELAY_ENABLED = process.env.RELAY_ENABLED === 'true';
+// Enables the /admin API; leave unset to disable it
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const ADMIN_AUDIT_LOG = process.env.ADMIN_AUDIT_LOG;
+// Number of reverse proxies in front of the server whose X-Forwarded-For
+// entries we believe; 0 uses the socket address
+const TRUST_PROXY = Math.max(0, Math.floor(Number(process.env.TRUST_PROXY) || 0));
+
+export interface ServerOptions {
+    port: number | string;
+    // Defaults to a single-instance in-memory store
+    store?: RoomStore;
+}
+
+export interface RunningServer {
+    app: express.Express;
+    server: http.Server;
+    wss: WebSocketServer;
+    roomManager: RoomManager;
+    close: () => Promise<void>;
+}
+
+export async function startServer(options: ServerOptions): Promise<RunningServer> {
+    const roomManager = new RoomManager(options.store ?? new MemoryRoomStore());
+    await roomManager.init();
+
+    // Cleared on shutdown so load balancers stop routing here before sockets close
+    let ready = true;
+
+    const app = express();
+
+    // Per-IP limits, shared by HTTP routes and new WebSocket connections
+    const httpLimiter = new RateLimiter(RATE_LIMITS.http);
+    const createRoomLimiter = new RateLimiter(RATE_LIMITS.createRoom);
+    const connectLimiter = new RateLimiter(RATE_LIMITS.connect);
+    // Per room rather than per IP
+    const relayLimiter = new RateLimiter(RATE_LIMITS.relayBytes);
+    const connectionsPerIp: Map<string, number> = new Map();
+    // Keyed on the socket address unless TRUST_PROXY says a proxy supplies it
+    const limitByAddress = (req: http.IncomingMessage) => limitKey(getClientAddress(req));
+
+    // Middleware
+    app.use(cors({
+        origin: CORS_ORIGIN.split(',').map(s => s.trim()),
+        methods: ['GET', 'POST'],
+        credentials: true,
+    }));
+    app.use(express.json());
+
+    // HTTP Routes
+    app.get('/', httpRateLimit(httpLimiter, limitByAddress), (_req, res) => {
+        res.json({
+            name: 'AeroShare Signaling Server',
+            version: '1.0.0',
+            status: 'running',
+            endpoints: {
+                health: '/health',
+                ready: '/health/ready',
+                live: '/health/live',
+                metrics: '/metrics',
+                admin: ADMIN_TOKEN ? '/admin/rooms' : undefined,
+                createRoom: 'POST /create-room',
+                iceServers: '/ice-servers',
+                websocket: 'ws:// or wss://',
+            },
+            cors: CORS_ORIGIN.split(',').map(s => s.trim()),
+            uptime: process.uptime(),
+        });
     });
-});
-
-app.post('/create-room', (_req, res) => {
-    const roomId = uuidv4().substring(0, 8); // Short room ID
-    roomManager.createRoom(roomId);
-
-    const response: CreateRoomResponse = { roomId };
-    res.json(response);
-});
-
-app.get('/health', (_req, res) => {
-    const response: HealthResponse = {
-        status: 'ok',
-        uptime: process.uptime(),
-        rooms: roomManager.getRoomCount(),
-        peers: roomManager.getTotalPeerCount(),
-    };
-    res.json(response);
-});
 
-// Create HTTP server
-const server = http.createServer(app);
+    app.post('/create-room', httpRateLimit(httpLimiter, limitByAddress), httpRateLimit(createRoomLimiter, limitByAddress), async (req, res) => {
+        const { password, lobby } = (req.body || {}) as CreateRoomRequest;
 
-// WebSocket Server
-const wss = new WebSocketServer({ server });
+        if (password !== undefined && (typeof password !== 'string' || password.length > LIMITS.password)) {
+            res.status(400).json({ error: 'Invalid password' });
+            return;
+        }
 
-// Heartbeat interval (30 seconds)
-const HEARTBEAT_INTERVAL = 30000;
+        try {
+            if (!await roomManager.canCreateRoom()) {
+                res.set('Retry-After', String(ROOM_FULL_RETRY_AFTER));
+                res.status(503).json({ error: 'The server has reached its room limit', code: 'ROOM_FULL', retryAfter: ROOM_FULL_RETRY_AFTER });
+                return;
+            }
 
-function heartbeat(this: ExtendedWebSocket) {
-    this.isAlive = true;
-}
+            const roomId = uuidv4().substring(0, 8); // Short room ID
+            const hostToken = crypto.randomBytes(24).toString('hex'); // Proves the creator is the host
+            await roomManager.createRoom(roomId, { password: password || undefined, hostToken, lobby: lobby === true });
 
-// Ping all clients periodically
-const heartbeatIntervalId = setInterval(() => {
-    wss.clients.forEach((ws) => {
-        const extWs = ws as ExtendedWebSocket;
-        if (!extWs.isAlive) {
-            roomManager.leaveRoom(extWs);
-            return extWs.terminate();
+            const response: CreateRoomResponse = { roomId, passwordProtected: !!password, hostToken };
+            res.json(response);
+        } catch (error) {
+            console.error('[HTTP] Failed to create room:', error);
+            res.status(500).json({ error: 'Failed to create room' });
         }
-        extWs.isAlive = false;
-        extWs.ping();
     });
-}, HEARTBEAT_INTERVAL);
 
-wss.on('close', () => {
-    clearInterval(heartbeatIntervalId);
-});
+    // Short-lived TURN credentials, so clients never ship a shared relay
+    // password. Only room members get them: the caller proves who it is with
+    // its resume token, and names the room it's in.
+    app.get('/ice-servers', httpRateLimit(httpLimiter, limitByAddress), async (req, res) => {
+        res.set('Cache-Control', 'no-store');
+        const header = req.headers.authorization || '';
+        const peerId = header.startsWith('Bearer ') ? verifyResumeToken(header.slice('Bearer '.length)) : null;
+        const roomId = typeof req.query.roomId === 'string' ? req.query.roomId : '';
 
-wss.on('connection', (ws: WebSocket) => {
-    const extWs = ws as ExtendedWebSocket;
-    extWs.id = uuidv4();
-    extWs.isAlive = true;
+        try {
+            if (!peerId || !roomId || !await roomManager.isMember(roomId, peerId)) {
+                res.status(401).json({ error: 'Only room members get ICE servers' });
+                return;
+            }
+            res.json(getIceServers());
+        } catch (error) {
+            console.error('[HTTP] Failed to check ICE server access:', error);
+            res.status(500).json({ error: 'Failed to check access' });
+        }
+    });
 
-    console.log(`[WS] New connection: ${extWs.id}`);
+    if (ADMIN_TOKEN) {
+        app.use('/admin', httpRateLimit(httpLimiter, limitByAddress), createAdminRouter(roomManager, {
+            token: ADMIN_TOKEN,
+            auditLogPath: ADMIN_AUDIT_LOG,
+            addressOf: getClientAddress,
+        }));
+    }
+
+    // Create HTTP server
+    const server = http.createServer(app);
 
-    extWs.on('pong', () => { extWs.isAlive = true; });
+    // WebSocket Server
+    const wss = new WebSocketServer({ server, maxPayload: QUOTAS.maxPayloadBytes });
 
-    extWs.on('message', (data) => {
+    app.get('/health', async (_req, res) => {
         try {
-            const message: SignalingMessage = JSON.parse(data.toString());
-            handleSignalingMessage(extWs, message);
+            const response: HealthResponse = {
+                status: 'ok',
+                uptime: process.uptime(),
+                rooms: await roomManager.getRoomCount(),
+                peers: await roomManager.getTotalPeerCount(),
+                connections: wss.clients.size,
+                nodeId: roomManager.nodeId,
+            };
+            res.json(response);
         } catch (error) {
-            console.error('[WS] Invalid message format:', error);
-            sendError(extWs, 'INVALID_MESSAGE', 'Invalid message format');
+            console.error('[HTTP] Health check failed:', error);
+            res.status(503).json({ status: 'error', uptime: process.uptime() });
         }
     });
 
-    extWs.on('close', () => {
-        console.log(`[WS] Connection closed: ${extWs.id}`);
-        roomManager.leaveRoom(extWs);
+    // Liveness: the process is up and the event loop is turning
+    app.get('/health/live', (_req, res) => {
+        const response: ProbeResponse = { status: 'ok', uptime: process.uptime() };
+        res.json(response);
     });
 
-    extWs.on('error', (error) => {
-        console.error(`[WS] Error for ${extWs.id}:`, error);
-        roomManager.leaveRoom(extWs);
+    // Readiness: accepting new connections and the room store answers
+    app.get('/health/ready', async (_req, res) => {
+        let isReady = ready;
+        if (isReady) {
+            try {
+                await roomManager.ping();
+            } catch (error) {
+                console.error('[HTTP] Readiness check failed:', error);
+                isReady = false;
+            }
+        }
+
+        const response: ProbeResponse = { status: isReady ? 'ok' : 'unavailable', uptime: process.uptime() };
+        res.status(isReady ? 200 : 503).json(response);
+    });
+
+    // Prometheus scrape target; room gauges cover every instance sharing the store
+    app.get('/metrics', async (_req, res) => {
+        try {
+            const text = renderMetrics({
+                roomSizes: await roomManager.getRoomSizes(),
+                connections: wss.clients.size,
+            });
+            res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+            res.send(text);
+        } catch (error) {
+            console.error('[HTTP] Failed to render metrics:', error);
+            res.status(503).send('# metrics unavailable\n');
+        }
+    });
+
+    // Ping all clients periodically
+    const heartbeatIntervalId = setInterval(() => {
+        wss.clients.forEach((ws) => {
+            const extWs = ws as ExtendedWebSocket;
+            if (!extWs.isAlive) {
+                // The close handler detaches the peer so it can still resume
+                metrics.heartbeatTerminations.inc();
+                return extWs.terminate();
+            }
+            extWs.isAlive = false;
+            extWs.ping();
+        });
+    }, HEARTBEAT_INTERVAL);
+
+    wss.on('close', () => {
+        clearInterval(heartbeatIntervalId);
     });
-});
 
-function handleSignalingMessage(ws: ExtendedWebSocket, message: SignalingMessage): void {
+    // Drop per-IP buckets that have refilled
+    const pruneIntervalId = setInterval(() => {
+        httpLimiter.prune();
+        createRoomLimiter.prune();
+        connectLimiter.prune();
+        relayLimiter.prune();
+    }, 60 * 1000);
+
+    wss.on('connection', (ws: WebSocket, req: http.IncomingMessage) => {
+        const extWs = ws as ExtendedWebSocket;
+        extWs.id = uuidv4();
+        extWs.address = getClientAddress(req);
+        extWs.isAlive = true;
+
+        // 'close' always follows 'error', so membership is handled there
+        extWs.on('error', (error) => {
+            console.error(`[WS] Error for ${extWs.id}:`, error);
+        });
+
+        const address = limitKey(extWs.address);
+        const connectWaitMs = connectLimiter.take(address);
+        const openConnections = connectionsPerIp.get(address) || 0;
+        if (connectWaitMs || openConnections >= QUOTAS.maxConnectionsPerIp) {
+            sendError(extWs, 'RATE_LIMITED', 'Too many connections from your address', {
+                retryAfter: toRetryAfter(connectWaitMs || RATE_LIMITS.connect.perSeconds * 1000),
+            });
+            extWs.close(1008, 'Too many connections');
+            return;
+        }
+        connectionsPerIp.set(address, openConnections + 1);
+
+        console.log(`[WS] New connection: ${extWs.id}`);
+
+        extWs.on('pong', () => { extWs.isAlive = true; });
+
+        sendWelcome(extWs);
+
+        // Flood control: one bucket for everything plus one per message type
+        const messageBucket = new TokenBucket(RATE_LIMITS.messages);
+        const typeBuckets: Map<string, TokenBucket> = new Map();
+        let limitedUntil = 0;
+
+        // Returns true if the message may be handled; only the first rejection
+        // in each window is reported so a flood isn't answered in kind
+        const allowMessage = (bucket: TokenBucket, what: string): boolean => {
+            const waitMs = bucket.take();
+            if (!waitMs) return true;
+
+            if (Date.now() >= limitedUntil) {
+                limitedUntil = Date.now() + waitMs;
+                sendError(extWs, 'RATE_LIMITED', `Too many ${what}, slow down`, { retryAfter: toRetryAfter(waitMs) });
+                console.log(`[WS] Rate limited ${extWs.id}: ${what}`);
+            }
+            return false;
+        };
+
+        // Room updates are async, so handle one event per socket at a time
+        let queue = Promise.resolve();
+        const enqueue = (task: () => Promise<void>) => {
+            queue = queue.then(task).catch((error) => {
+                console.error(`[WS] Failed to handle event for ${extWs.id}:`, error);
+            });
+        };
+
+        extWs.on('message', (data) => {
+            if (!allowMessage(messageBucket, 'messages')) return;
+
+            const result = parseClientMessage(data.toString());
+            if (!result.ok) {
+                console.error(`[WS] Rejected message from ${extWs.id}: ${result.error}`);
+                sendError(extWs, result.code, result.error);
+                return;
+            }
+
+            const { type } = result.message;
+            const typeLimit = RATE_LIMITS.messageTypes[type];
+            if (typeLimit) {
+                if (!typeBuckets.has(type)) typeBuckets.set(type, new TokenBucket(typeLimit));
+                if (!allowMessage(typeBuckets.get(type)!, `${type} messages`)) return;
+            }
+
+            enqueue(() => handleSignalingMessage(roomManager, relayLimiter, extWs, result.message));
+        });
+
+        extWs.on('close', () => {
+            console.log(`[WS] Connection closed: ${extWs.id}`);
+            const remaining = (connectionsPerIp.get(address) || 1) - 1;
+            if (remaining > 0) {
+                connectionsPerIp.set(address, remaining);
+            } else {
+                connectionsPerIp.delete(address);
+            }
+            enqueue(() => roomManager.detachPeer(extWs, RESUME_GRACE_MS));
+        });
+    });
+
+    // Cleanup stale rooms every hour
+    const cleanupIntervalId = setInterval(() => {
+        roomManager.cleanupStaleRooms().catch((error) => {
+            console.error('[Rooms] Stale room cleanup failed:', error);
+        });
+    }, 60 * 60 * 1000);
+
+    // Clear out peers left behind by instances that crashed
+    const reapIntervalId = setInterval(() => {
+        roomManager.reapDeadNodes().then((reaped) => {
+            if (reaped) console.log(`[Rooms] Removed ${reaped} peers held by unresponsive instances`);
+        }).catch((error) => {
+            console.error('[Rooms] Dead instance cleanup failed:', error);
+        });
+    }, NODE_REAP_INTERVAL);
+
+    await new Promise<void>((resolve) => server.listen(options.port, resolve));
+
+    const close = async () => {
+        ready = false;
+        clearInterval(cleanupIntervalId);
+        clearInterval(reapIntervalId);
+        clearInterval(pruneIntervalId);
+        wss.clients.forEach(ws => ws.terminate());
+        wss.close();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        await roomManager.close();
+    };
+
+    return { app, server, wss, roomManager, close };
+}
+
+async function handleSignalingMessage(
+    roomManager: RoomManager,
+    relayLimiter: RateLimiter,
+    ws: ExtendedWebSocket,
+    message: SignalingMessage,
+): Promise<void> {
     const { type, roomId, targetId, payload } = message;
 
     switch (type) {
         case 'join': {
-            const joinPayload = payload as { username?: string } | undefined;
+            const joinPayload = payload as JoinMessage['payload'] | undefined;
+
+            // One room per connection; leave first to switch
+            if (ws.roomId || ws.lobbyRoomId) {
+                sendError(ws, 'ALREADY_JOINED', 'Already in a room', { roomId });
+                return;
+            }
+
+            const refuse = (joinError: ErrorCode) => {
+                sendError(ws, joinError, JOIN_ERROR_MESSAGES[joinError] || 'Unable to join room', {
+                    roomId,
+                    retryAfter: joinError === 'ROOM_FULL' ? ROOM_FULL_RETRY_AFTER : undefined,
+                });
+                console.log(`[WS] ${ws.id} was refused entry to room ${roomId}: ${joinError}`);
+            };
+
+            // Reject before the peer is added to the room or sees who is there
+            const joinError = await roomManager.authorizeJoin(roomId, ws, joinPayload);
+            if (joinError) {
+                refuse(joinError);
+                return;
+            }
+
             ws.username = joinPayload?.username || `Peer-${ws.id.substring(0, 4)}`;
-            roomManager.joinRoom(roomId, ws);
+            // Passed on to other peers, which negotiate features among themselves
+            ws.version = joinPayload?.version;
+            ws.capabilities = joinPayload?.capabilities;
+
+            // Waiting peers get neither the peer list nor peer-joined broadcasts
+            if (await roomManager.requiresApproval(roomId, joinPayload?.hostToken)) {
+                const lobbyError = await roomManager.enterLobby(roomId, ws);
+                if (lobbyError) {
+                    refuse(lobbyError);
+                    return;
+                }
+                console.log(`[WS] ${ws.username} is waiting in the lobby of room ${roomId}`);
+                break;
+            }
+
+            // The room may have been locked or filled since it was checked
+            const admissionError = await roomManager.joinRoom(roomId, ws, joinPayload?.hostToken);
+            if (admissionError) {
+                refuse(admissionError);
+                return;
+            }
             console.log(`[WS] ${ws.username} joined room ${roomId}`);
             break;
         }
 
+        case 'resume': {
+            const resumePayload = payload as ResumeMessage['payload'] | undefined;
+            const peerId = resumePayload?.resumeToken ? verifyResumeToken(resumePayload.resumeToken) : null;
+
+            if (!peerId || ws.roomId || ws.lobbyRoomId || !await roomManager.resumePeer(roomId, peerId, ws)) {
+                sendError(ws, 'RESUME_FAILED', 'Session could not be resumed');
+                return;
+            }
+
+            sendWelcome(ws);
+            await roomManager.sendRoomSnapshot(ws);
+            console.log(`[WS] ${ws.username || ws.id} resumed session in room ${ws.roomId}`);
+            break;
+        }
+
         case 'leave': {
-            roomManager.leaveRoom(ws);
+            await roomManager.leaveRoom(ws);
             console.log(`[WS] ${ws.username || ws.id} left room ${roomId}`);
             break;
         }
@@ -144,6 +461,11 @@ function handleSignalingMessage(ws: ExtendedWebSocket, message: SignalingMessage
                 sendError(ws, 'MISSING_TARGET', 'Target peer ID is required');
                 return;
             }
+            // Only members may negotiate, and only with their own room
+            if (ws.roomId !== roomId) {
+                sendError(ws, 'PEER_NOT_FOUND', `Target peer ${targetId} not found`);
+                return;
+            }
 
             // Forward the message to the target peer
             const forwardMessage: SignalingMessage = {
@@ -154,10 +476,112 @@ function handleSignalingMessage(ws: ExtendedWebSocket, message: SignalingMessage
                 payload,
             };
 
-            const sent = roomManager.sendToPeer(roomId, targetId, JSON.stringify(forwardMessage));
+            const sent = await roomManager.sendToPeer(roomId, targetId, JSON.stringify(forwardMessage));
             if (!sent) {
                 sendError(ws, 'PEER_NOT_FOUND', `Target peer ${targetId} not found`);
+                return;
             }
+            metrics.forwarded.inc({ type });
+            break;
+        }
+
+        case 'relay-key':
+        case 'relay':
+        case 'relay-ack': {
+            if (!RELAY_ENABLED) {
+                sendError(ws, 'RELAY_DISABLED', 'This server does not relay transfers');
+                return;
+            }
+            // Relayed data is charged to the sender's own room
+            if (!targetId || ws.roomId !== roomId) {
+                sendError(ws, 'PEER_NOT_FOUND', `Target peer ${targetId} not found`);
+                return;
+            }
+
+            let size = 0;
+            if (type === 'relay') {
+                size = (payload as RelayMessage['payload']).data.length;
+                const waitMs = relayLimiter.take(roomId, size);
+                if (waitMs) {
+                    sendError(ws, 'RELAY_QUOTA_EXCEEDED', 'This room has used up its relay allowance', {
+                        retryAfter: toRetryAfter(waitMs),
+                    });
+                    return;
+                }
+            }
+
+            // The server only ever sees ciphertext and public keys
+            const relayMessage: SignalingMessage = {
+                type,
+                roomId,
+                senderId: ws.id,
+                targetId,
+                payload,
+            };
+
+            const sent = await roomManager.sendToPeer(roomId, targetId, JSON.stringify(relayMessage), { drain: true });
+            if (!sent) {
+                sendError(ws, 'PEER_NOT_FOUND', `Target peer ${targetId} not found`);
+                return;
+            }
+            metrics.forwarded.inc({ type });
+            if (size) metrics.relayedBytes.inc({}, size);
+            break;
+        }
+
+        case 'kick':
+        case 'ban': {
+            if (!await roomManager.isHost(ws)) {
+                sendError(ws, 'NOT_HOST', 'Only the host can remove peers');
+                return;
+            }
+            if (!targetId) {
+                sendError(ws, 'MISSING_TARGET', 'Target peer ID is required');
+                return;
+            }
+            if (targetId === ws.id) {
+                sendError(ws, 'INVALID_MESSAGE', 'The host cannot remove themselves');
+                return;
+            }
+
+            const removed = await roomManager.removePeer(ws, targetId, type === 'ban' ? 'banned' : 'kicked');
+            if (!removed) {
+                sendError(ws, 'PEER_NOT_FOUND', `Target peer ${targetId} not found`);
+                return;
+            }
+            console.log(`[WS] Host ${ws.username || ws.id} ${type === 'ban' ? 'banned' : 'kicked'} ${targetId} from room ${ws.roomId}`);
+            break;
+        }
+
+        case 'lock':
+        case 'unlock': {
+            if (!ws.roomId || !await roomManager.isHost(ws)) {
+                sendError(ws, 'NOT_HOST', 'Only the host can lock the room');
+                return;
+            }
+
+            await roomManager.setLocked(ws.roomId, type === 'lock');
+            console.log(`[WS] Room ${ws.roomId} ${type}ed by ${ws.username || ws.id}`);
+            break;
+        }
+
+        case 'approve':
+        case 'deny': {
+            if (!await roomManager.isHost(ws)) {
+                sendError(ws, 'NOT_HOST', 'Only the host can answer lobby requests');
+                return;
+            }
+            if (!targetId) {
+                sendError(ws, 'MISSING_TARGET', 'Target peer ID is required');
+                return;
+            }
+
+            const answered = await roomManager.answerKnock(ws, targetId, type === 'approve');
+            if (!answered) {
+                sendError(ws, 'PEER_NOT_FOUND', `No lobby request from ${targetId}`);
+                return;
+            }
+            console.log(`[WS] Host ${ws.username || ws.id} ${type === 'approve' ? 'approved' : 'denied'} ${targetId} in room ${ws.roomId}`);
             break;
         }
 
@@ -166,33 +590,84 @@ function handleSignalingMessage(ws: ExtendedWebSocket, message: SignalingMessage
     }
 }
 
-function sendError(ws: ExtendedWebSocket, code: string, errorMessage: string): void {
+const JOIN_ERROR_MESSAGES: Partial<Record<ErrorCode, string>> = {
+    AUTH_REQUIRED: 'This room is password protected',
+    AUTH_FAILED: 'Incorrect room password',
+    ROOM_LOCKED: 'The host has locked this room',
+    BANNED: 'You have been banned from this room',
+    ROOM_FULL: 'This room is full',
+};
+
+// The peer's address. Behind TRUST_PROXY proxies, it's the one the outermost
+// of them appended to X-Forwarded-For; anything left of that came from the
+// client and can't be trusted.
+function getClientAddress(req: http.IncomingMessage): string | undefined {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (TRUST_PROXY === 0 || !forwarded) return req.socket.remoteAddress;
+
+    const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)
+        .split(',')
+        .map(hop => hop.trim())
+        .filter(Boolean);
+    return hops[Math.max(0, hops.length - TRUST_PROXY)] || req.socket.remoteAddress;
+}
+
+function sendWelcome(ws: ExtendedWebSocket): void {
+    const welcome: WelcomeMessage = {
+        type: 'welcome',
+        roomId: ws.roomId || '',
+        senderId: 'server',
+        payload: { peerId: ws.id, resumeToken: createResumeToken(ws.id), relay: RELAY_ENABLED },
+    };
+    ws.send(JSON.stringify(welcome));
+}
+
+function sendError(
+    ws: ExtendedWebSocket,
+    code: ErrorCode,
+    errorMessage: string,
+    options: { roomId?: string; retryAfter?: number } = {},
+): void {
     const error: ErrorMessage = {
         type: 'error',
-        roomId: ws.roomId || '',
+        roomId: options.roomId || ws.roomId || '',
         senderId: 'server',
-        payload: { code, message: errorMessage },
+        payload: { code, message: errorMessage, retryAfter: options.retryAfter },
     };
     ws.send(JSON.stringify(error));
+    metrics.errors.inc({ code });
 }
 
-// Cleanup stale rooms every hour
-setInterval(() => {
-    roomManager.cleanupStaleRooms();
-}, 60 * 60 * 1000);
+// Several instances behind a load balancer share rooms through Redis. They
+// must also share the resume secret, or a token from one instance is
+// rejected by the rest, breaking resumes and /ice-servers.
+export function createStoreFromEnv(env: NodeJS.ProcessEnv = process.env): RoomStore {
+    if (!env.REDIS_URL) {
+        return new MemoryRoomStore();
+    }
+    if (!env.RESUME_SECRET) {
+        throw new Error('RESUME_SECRET must be set, to the same value on every instance, when REDIS_URL is');
+    }
+
+    const nodeId = env.NODE_ID || uuidv4();
+    console.log(`🔗 Sharing rooms through Redis as node ${nodeId}`);
+    return new SharedRoomStore(new RedisBroker(env.REDIS_URL), nodeId);
+}
 
 // Start server
-server.listen(PORT, () => {
-    console.log(`🚀 Aeroshare signaling server running on port ${PORT}`);
-    console.log(`📡 WebSocket server ready`);
-    console.log(`🌐 CORS origin: ${CORS_ORIGIN}`);
-});
-
-// Graceful shutdown
-process.on('SIGTERM', () => {
-    console.log('SIGTERM received, shutting down...');
-    wss.close();
-    server.close(() => {
-        process.exit(0);
+if (require.main === module) {
+    Promise.resolve().then(() => startServer({ port: PORT, store: createStoreFromEnv() })).then(({ close }) => {
+        console.log(`🚀 Aeroshare signaling server running on port ${PORT}`);
+        console.log(`📡 WebSocket server ready`);
+        console.log(`🌐 CORS origin: ${CORS_ORIGIN}`);
+
+        // Graceful shutdown
+        process.on('SIGTERM', () => {
+            console.log('SIGTERM received, shutting down...');
+            close().then(() => process.exit(0));
+        });
+    }).catch((error) => {
+        console.error('Failed to start server:', error);
+        process.exit(1);
     });
-});
+}
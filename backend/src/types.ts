@@ -1,31 +1,35 @@
 import WebSocket from 'ws';
+import type { SignalingMessage, SignalingMessageType, ErrorCode } from '../../shared/signaling';
 
-// Signaling message types
-export type SignalingMessageType =
-    | 'join'
-    | 'leave'
-    | 'offer'
-    | 'answer'
-    | 'candidate'
-    | 'peer-list'
-    | 'peer-joined'
-    | 'peer-left'
-    | 'error';
-
-// Base signaling message structure
-export interface SignalingMessage {
-    type: SignalingMessageType;
-    roomId: string;
-    senderId: string;
-    targetId?: string;
-    payload?: unknown;
-}
+export type { SignalingMessage, SignalingMessageType, ErrorCode };
 
 // Join message
 export interface JoinMessage extends SignalingMessage {
     type: 'join';
     payload: {
         username?: string;
+        password?: string;
+        hostToken?: string;
+        version?: number; // Client protocol version; absent before versioning
+        capabilities?: string[]; // Optional features the client supports
+    };
+}
+
+// Welcome message (server -> client on connect and after a resume)
+export interface WelcomeMessage extends SignalingMessage {
+    type: 'welcome';
+    payload: {
+        peerId: string;
+        resumeToken: string;
+        relay: boolean; // Whether this server relays transfers when P2P fails
+    };
+}
+
+// Resume message (client -> server after a reconnect)
+export interface ResumeMessage extends SignalingMessage {
+    type: 'resume';
+    payload: {
+        resumeToken: string;
     };
 }
 
@@ -50,11 +54,43 @@ export interface CandidateMessage extends SignalingMessage {
     payload: unknown; // RTCIceCandidateInit - browser type
 }
 
+// Relay key exchange: an ECDH public key (base64, raw P-256 point), sealed
+// with the room key in encrypted rooms. Opaque to the server either way.
+export interface RelayKeyMessage extends SignalingMessage {
+    type: 'relay-key';
+    targetId: string;
+    payload: {
+        publicKey: string;
+    };
+}
+
+// One AES-GCM encrypted data channel message, relayed through the server
+export interface RelayMessage extends SignalingMessage {
+    type: 'relay';
+    targetId: string;
+    payload: {
+        seq: number;
+        iv: string; // base64
+        data: string; // base64 ciphertext
+    };
+}
+
+// Receiver -> sender: a relayed frame was handled, so another may be sent
+export interface RelayAckMessage extends SignalingMessage {
+    type: 'relay-ack';
+    targetId: string;
+    payload: {
+        seq: number;
+    };
+}
+
 // Peer info
 export interface PeerInfo {
     id: string;
     username?: string;
     joinedAt: number;
+    version?: number;
+    capabilities?: string[];
 }
 
 // Peer list message
@@ -69,20 +105,84 @@ export interface PeerJoinedMessage extends SignalingMessage {
     payload: PeerInfo;
 }
 
+// Why a peer is no longer in the room
+export type PeerLeftReason = 'left' | 'kicked' | 'banned' | 'disconnected';
+
 // Peer left message
 export interface PeerLeftMessage extends SignalingMessage {
     type: 'peer-left';
+    payload: {
+        peerId: string;
+        reason: PeerLeftReason;
+    };
+}
+
+// Room state (host and lock) shared with every peer
+export interface RoomState {
+    hostId?: string;
+    locked: boolean;
+    lobby: boolean;
+}
+
+export interface RoomStateMessage extends SignalingMessage {
+    type: 'room-state';
+    payload: RoomState;
+}
+
+// Host moderation messages
+export interface KickMessage extends SignalingMessage {
+    type: 'kick';
+    targetId: string;
+}
+
+export interface BanMessage extends SignalingMessage {
+    type: 'ban';
+    targetId: string;
+}
+
+export interface LockMessage extends SignalingMessage {
+    type: 'lock' | 'unlock';
+}
+
+// Lobby: a peer waiting for the host to let them in
+export interface LobbyEntry {
+    peerId: string;
+    username?: string;
+    requestedAt: number;
+}
+
+// Server -> host: someone is waiting in the lobby
+export interface KnockMessage extends SignalingMessage {
+    type: 'knock';
+    payload: LobbyEntry;
+}
+
+// Server -> host: a waiting peer left before being answered
+export interface KnockCancelledMessage extends SignalingMessage {
+    type: 'knock-cancelled';
     payload: {
         peerId: string;
     };
 }
 
+// Host -> server: answer a knock
+export interface LobbyDecisionMessage extends SignalingMessage {
+    type: 'approve' | 'deny';
+    targetId: string;
+}
+
+// Server -> waiting peer
+export interface LobbyStatusMessage extends SignalingMessage {
+    type: 'lobby-waiting' | 'lobby-denied';
+}
+
 // Error message
 export interface ErrorMessage extends SignalingMessage {
     type: 'error';
     payload: {
-        code: string;
+        code: ErrorCode;
         message: string;
+        retryAfter?: number; // Seconds to wait before trying again
     };
 }
 
@@ -91,19 +191,76 @@ export interface ExtendedWebSocket extends WebSocket {
     id: string;
     roomId?: string;
     username?: string;
+    address?: string;
+    lobbyRoomId?: string;
+    version?: number;
+    capabilities?: string[];
     isAlive: boolean;
 }
 
-// Room structure
+// Salted password hash (hex encoded)
+export interface PasswordHash {
+    salt: string;
+    hash: string;
+}
+
+// A room member (or lobby entry) and the server instance holding its socket
+export interface PeerRecord {
+    id: string;
+    username?: string;
+    address?: string;
+    nodeId: string;
+    joinedAt: number;
+    version?: number;
+    capabilities?: string[];
+}
+
+// Room structure (plain data so it can live in a shared store)
 export interface Room {
     id: string;
-    peers: Map<string, ExtendedWebSocket>;
+    peers: PeerRecord[]; // In join order
     createdAt: number;
+    password?: PasswordHash;
+    hostId?: string;
+    hostToken?: string; // SHA-256 of the token handed to the creator
+    locked: boolean;
+    bannedAddresses: string[];
+    lobbyEnabled: boolean;
+    lobby: PeerRecord[];
+}
+
+// Messages exchanged between server instances about sockets they hold
+export type NodeEnvelope =
+    | { kind: 'deliver'; peerIds: string[]; data: string } // Send raw signaling data
+    | { kind: 'evict'; peerId: string } // Peer is no longer in its room or lobby
+    | { kind: 'admit'; peerId: string; roomId: string } // Lobby peer was approved
+    | { kind: 'takeover'; peerId: string } // Peer resumed on another instance
+    | { kind: 'disconnect'; peerId: string; data: string }; // Send data, then close the socket
+
+// API request types
+export interface CreateRoomRequest {
+    password?: string;
+    lobby?: boolean;
 }
 
 // API response types
 export interface CreateRoomResponse {
     roomId: string;
+    passwordProtected: boolean;
+    hostToken: string;
+}
+
+// Mirrors the browser's RTCIceServer
+export interface IceServer {
+    urls: string | string[];
+    username?: string;
+    credential?: string;
+}
+
+export interface IceServersResponse {
+    iceServers: IceServer[];
+    ttl: number; // Seconds the TURN credentials are valid for
+    expiresAt: number;
 }
 
 export interface HealthResponse {
@@ -111,4 +268,42 @@ export interface HealthResponse {
     uptime: number;
     rooms: number;
     peers: number;
+    // Open WebSocket connections on the instance that answered
+    connections: number;
+    nodeId: string;
+}
+
+export interface ProbeResponse {
+    status: 'ok' | 'unavailable';
+    uptime: number;
+}
+
+// Admin API response types
+export interface AdminRoomSummary {
+    id: string;
+    createdAt: number;
+    peers: number;
+    lobby: number;
+    usernames: string[];
+    locked: boolean;
+    passwordProtected: boolean;
+    lobbyEnabled: boolean;
+}
+
+export interface AdminPeer {
+    id: string;
+    username?: string;
+    address?: string;
+    nodeId: string;
+    joinedAt: number;
+    host: boolean;
+    // Whether this instance holds an open socket for the peer
+    connectedHere: boolean;
+}
+
+export interface AdminRoomDetail extends Omit<AdminRoomSummary, 'peers' | 'lobby' | 'usernames'> {
+    hostId?: string;
+    peers: AdminPeer[];
+    lobby: AdminPeer[];
+    bannedAddresses: string[];
 }
@@ -0,0 +1,70 @@
+// Streams large incoming files to the browser's downloads. The page posts a
+// MessagePort per download, then opens /aeroshare-download/<id>; this worker
+// answers that request with a stream fed by whatever arrives on the port.
+// Each chunk is acked once the stream has room for more, and the page waits
+// for that ack before sending the next, so no more than QUEUE_BYTES sit here
+// however slowly the download saves.
+const DOWNLOAD_PATH = '/aeroshare-download/';
+const QUEUE_BYTES = 4 * 1024 * 1024;
+const downloads = new Map();
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+    const { type, id, filename, mime, size, port } = event.data || {};
+    if (type !== 'aeroshare-download' || !id || !port) return;
+
+    // Set while the page waits for room in a full queue
+    let owed = false;
+    const stream = new ReadableStream({
+        start(controller) {
+            port.onmessage = ({ data }) => {
+                if (data.chunk) {
+                    controller.enqueue(new Uint8Array(data.chunk));
+                    if (controller.desiredSize > 0) port.postMessage({ ack: true });
+                    else owed = true;
+                } else if (data.done) {
+                    controller.close();
+                    port.close();
+                } else if (data.abort) {
+                    controller.error(new Error('Transfer aborted'));
+                    port.close();
+                }
+            };
+        },
+        pull() {
+            if (owed) {
+                owed = false;
+                port.postMessage({ ack: true });
+            }
+        },
+        cancel() {
+            port.postMessage({ cancelled: true });
+            port.close();
+        },
+    }, new ByteLengthQueuingStrategy({ highWaterMark: QUEUE_BYTES }));
+
+    downloads.set(id, { stream, filename, mime, size });
+    port.postMessage({ ready: true });
+});
+
+self.addEventListener('fetch', (event) => {
+    const url = new URL(event.request.url);
+    if (url.origin !== self.location.origin || !url.pathname.startsWith(DOWNLOAD_PATH)) return;
+
+    const download = downloads.get(url.pathname.slice(DOWNLOAD_PATH.length));
+    if (!download) {
+        event.respondWith(new Response('Not found', { status: 404 }));
+        return;
+    }
+    downloads.delete(url.pathname.slice(DOWNLOAD_PATH.length));
+
+    const headers = {
+        'Content-Type': download.mime || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.filename)}`,
+    };
+    if (download.size) headers['Content-Length'] = String(download.size);
+
+    event.respondWith(new Response(download.stream, { headers }));
+});
@@ -11,8 +11,14 @@ import {
     FileUp,
     MessageSquare,
     Globe,
-    Infinity
+    Infinity,
+    Lock
 } from 'lucide-react';
+import { CreateRoomRequest, CreateRoomResponse } from '@/types';
+import { LIMITS } from '@shared/validation';
+import { describeError } from '@/lib/errors';
+import { useStore } from '@/store/useStore';
+import { generateRoomKey, roomKeyFragment } from '@/lib/roomKey';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -20,6 +26,9 @@ export default function HomePage() {
     const router = useRouter();
     const [roomId, setRoomId] = useState('');
     const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [useLobby, setUseLobby] = useState(false);
+    const [useEncryption, setUseEncryption] = useState(false);
     const [isCreating, setIsCreating] = useState(false);
     const [isJoining, setIsJoining] = useState(false);
     const [error, setError] = useState('');
@@ -34,18 +43,31 @@ export default function HomePage() {
         setIsCreating(true);
 
         try {
+            const body: CreateRoomRequest = { password: password || undefined, lobby: useLobby };
             const response = await fetch(`${API_URL}/create-room`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
             });
 
+            // Over a server limit: show its reason and when to retry
+            if (response.status === 429 || response.status === 503) {
+                const body = await response.json().catch(() => null);
+                setError(body?.error ? describeError({ message: body.error, retryAfter: body.retryAfter }) : 'The server is busy. Try again shortly.');
+                setIsCreating(false);
+                return;
+            }
+
             if (!response.ok) throw new Error('Failed to create room');
 
-            const { roomId: newRoomId } = await response.json();
+            const { roomId: newRoomId, hostToken }: CreateRoomResponse = await response.json();
 
-            // Store username for room page
+            // Hand the username and host token to the room page; the password stays in memory
             sessionStorage.setItem('aeroshare_username', username);
-            router.push(`/room/${newRoomId}`);
+            sessionStorage.setItem(`aeroshare_host_${newRoomId}`, hostToken);
+            storePassword(newRoomId);
+            // The key goes in the fragment, so the server never sees it
+            router.push(`/room/${newRoomId}${useEncryption ? roomKeyFragment(generateRoomKey()) : ''}`);
         } catch (err) {
             setError('Failed to create room. Is the server running?');
             setIsCreating(false);
@@ -66,9 +88,15 @@ export default function HomePage() {
         setIsJoining(true);
 
         sessionStorage.setItem('aeroshare_username', username);
+        storePassword(roomId.trim());
         router.push(`/room/${roomId.trim()}`);
     };
 
+    // Kept in memory rather than session storage, so it never touches the disk
+    const storePassword = (targetRoomId: string) => {
+        useStore.getState().setRoomPassword(targetRoomId, password || null);
+    };
+
     return (
         <main className="min-h-screen bg-[#0d0d1a] text-white flex flex-col items-center justify-center p-4 relative overflow-hidden">
             {/* Background Effects */}
@@ -127,11 +155,47 @@ export default function HomePage() {
                                     value={username}
                                     onChange={(e) => setUsername(e.target.value)}
                                     placeholder="How should we call you?"
+                                    maxLength={LIMITS.username}
                                     className="w-full bg-[#12121f] border border-white/10 rounded-xl px-4 py-3.5 text-white placeholder-gray-600 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 transition-all"
                                 />
                             </div>
                         </div>
 
+                        <div>
+                            <label className="block text-sm font-medium text-gray-400 mb-2 ml-1">Room Password <span className="text-gray-600">(optional)</span></label>
+                            <div className="relative">
+                                <Lock className="w-4 h-4 text-gray-600 absolute left-4 top-1/2 -translate-y-1/2" />
+                                <input
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    placeholder="Protect a new room or unlock one"
+                                    maxLength={LIMITS.password}
+                                    className="w-full bg-[#12121f] border border-white/10 rounded-xl pl-11 pr-4 py-3.5 text-white placeholder-gray-600 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 transition-all"
+                                />
+                            </div>
+                        </div>
+
+                        <label className="flex items-center gap-3 ml-1 cursor-pointer select-none">
+                            <input
+                                type="checkbox"
+                                checked={useLobby}
+                                onChange={(e) => setUseLobby(e.target.checked)}
+                                className="w-4 h-4 rounded border-white/10 bg-[#12121f] accent-purple-500"
+                            />
+                            <span className="text-sm text-gray-400">Approve each person before they join (lobby)</span>
+                        </label>
+
+                        <label className="flex items-center gap-3 ml-1 cursor-pointer select-none">
+                            <input
+                                type="checkbox"
+                                checked={useEncryption}
+                                onChange={(e) => setUseEncryption(e.target.checked)}
+                                className="w-4 h-4 rounded border-white/10 bg-[#12121f] accent-purple-500"
+                            />
+                            <span className="text-sm text-gray-400">Encrypt with a key in the room link (share the link, not just the ID)</span>
+                        </label>
+
                         <div className="grid grid-cols-1 gap-4">
                             <button
                                 onClick={createRoom}
@@ -168,6 +232,7 @@ export default function HomePage() {
                                     value={roomId}
                                     onChange={(e) => setRoomId(e.target.value)}
                                     placeholder="Enter Room ID"
+                                    maxLength={LIMITS.id}
                                     className="flex-1 bg-[#12121f] border border-white/10 rounded-xl px-4 py-3.5 text-white placeholder-gray-600 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 transition-all font-mono text-sm"
                                     onKeyDown={(e) => e.key === 'Enter' && joinRoom()}
                                 />
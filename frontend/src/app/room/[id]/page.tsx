@@ -13,9 +13,34 @@ import {
     Download,
     QrCode,
     User,
+    Lock,
+    Unlock,
+    Crown,
+    UserX,
+    Ban,
+    Loader2,
+    DoorOpen,
+    AlertTriangle,
+    Server,
+    ShieldCheck,
+    Folder,
+    FolderUp,
+    Pause,
+    Play,
+    Clock,
+    ChevronDown,
+    ChevronUp,
+    BadgeCheck,
+    Fingerprint,
 } from 'lucide-react';
 import { useRoom } from '@/hooks/useRoom';
 import { useStore } from '@/store/useStore';
+import { LIMITS } from '@shared/validation';
+import { describeError } from '@/lib/errors';
+import { foldersFromInput, readDrop } from '@/lib/folders';
+import { roomKeyFromHash, importRoomKey } from '@/lib/roomKey';
+import { progressPercent } from '@/lib/throughput';
+import { PeerDelivery } from '@/types';
 
 // Avatar colors for peers
 const AVATAR_COLORS = [
@@ -27,6 +52,18 @@ const AVATAR_COLORS = [
     'bg-gradient-to-br from-indigo-400 to-blue-500',
 ];
 
+// How each recipient's copy of a sent file reads in the breakdown
+const DELIVERY_LABELS: Record<PeerDelivery['status'], string> = {
+    pending: 'Waiting to accept',
+    declined: 'Declined',
+    transferring: 'Receiving',
+    paused: 'Paused',
+    interrupted: 'Reconnecting',
+    completed: 'Received',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
 function getAvatarColor(id: string): string {
     let hash = 0;
     for (let i = 0; i < id.length; i++) {
@@ -45,6 +82,15 @@ export default function RoomPage() {
         leaveRoom,
         sendChatMessage,
         sendFile,
+        sendFolder,
+        respondToOffer,
+        pauseTransfer,
+        resumeTransfer,
+        cancelTransfer,
+        kickPeer,
+        banPeer,
+        setRoomLocked,
+        answerKnock,
         getRoomLink,
     } = useRoom();
 
@@ -52,47 +98,122 @@ export default function RoomPage() {
         peerId,
         username,
         isConnected,
+        joinError,
+        notice,
+        setNotice,
+        roomState,
+        removedReason,
+        lobbyStatus,
+        knocks,
         peers,
         peerConnections,
         messages,
         transfers,
+        sendQueue,
+        sendConcurrency,
+        setSendConcurrency,
+        roomKey,
+        setRoomKey,
+        verifiedFingerprints,
+        setFingerprintVerified,
+        addLog,
     } = useStore();
 
     const [messageInput, setMessageInput] = useState('');
     const [copied, setCopied] = useState(false);
     const [showQR, setShowQR] = useState(false);
+    // The peer whose verification code is open
+    const [verifyingPeerId, setVerifyingPeerId] = useState<string | null>(null);
     const [isDragging, setIsDragging] = useState(false);
+    // "Always accept from this peer", per pending file offer
+    const [alwaysAccept, setAlwaysAccept] = useState<Record<string, boolean>>({});
+    // Sent files whose per-recipient breakdown is open
+    const [expandedTransfers, setExpandedTransfers] = useState<Record<string, boolean>>({});
 
     // Username Modal State
     const [showNameModal, setShowNameModal] = useState(false);
     const [nameInput, setNameInput] = useState('');
+    const [passwordInput, setPasswordInput] = useState('');
+    // The room key from the link's fragment has to be ready before joining
+    const [keyStatus, setKeyStatus] = useState<'checking' | 'ready' | 'invalid'>('checking');
+
+    // The server rejected our join because the room is password protected
+    const needsPassword = joinError?.code === 'AUTH_REQUIRED' || joinError?.code === 'AUTH_FAILED';
+    // The server rejected our join outright (locked, full or banned)
+    const isRefused = (!!joinError && ['ROOM_LOCKED', 'BANNED', 'INVALID_ROOM_ID', 'ROOM_FULL'].includes(joinError.code)) || lobbyStatus === 'denied' || keyStatus === 'invalid';
+    // An operator closed the room or disconnected us after we had joined
+    const isDisconnected = joinError?.code === 'DISCONNECTED' || joinError?.code === 'ROOM_CLOSED';
+    const isHost = !!peerId && roomState.hostId === peerId;
+    // Closes by itself if the peer leaves or reconnects before a code is ready
+    const verifying = verifyingPeerId ? peerConnections.get(verifyingPeerId) : undefined;
+    const verifyingName = peers.find(p => p.id === verifyingPeerId)?.username || `Peer-${verifyingPeerId?.slice(0, 4)}`;
+    const isVerifyingVerified = !!verifying?.fingerprint && verifiedFingerprints.includes(verifying.fingerprint);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement | null>(null);
     const chatEndRef = useRef<HTMLDivElement>(null);
 
+    // Read the room key, if the link has one, so nothing is ever sent unencrypted
+    useEffect(() => {
+        const encoded = roomKeyFromHash(window.location.hash);
+        if (!encoded) {
+            setRoomKey(null);
+            setKeyStatus('ready');
+            return;
+        }
+
+        importRoomKey(encoded).then((key) => {
+            setRoomKey(key);
+            setKeyStatus('ready');
+        }, (error) => {
+            console.error('[Room] Invalid room key in link:', error);
+            setKeyStatus('invalid');
+        });
+    }, [setRoomKey]);
+
     // Join room logic
     useEffect(() => {
+        if (keyStatus !== 'ready') return;
+
         // Check if we already have a username in session storage
         const storedUsername = sessionStorage.getItem('aeroshare_username');
 
+        const storedPassword = useStore.getState().roomPasswords[roomIdParam];
+        const storedHostToken = sessionStorage.getItem(`aeroshare_host_${roomIdParam}`) || undefined;
+
         if (!peerId) {
             if (storedUsername) {
                 // If we have a username, join immediately
-                joinRoom(roomIdParam, storedUsername);
+                joinRoom(roomIdParam, storedUsername, { password: storedPassword, hostToken: storedHostToken });
             } else {
                 // Otherwise, show the name modal
                 setShowNameModal(true);
             }
         }
-    }, [roomIdParam, joinRoom, peerId]);
+    }, [roomIdParam, joinRoom, peerId, keyStatus]);
+
+    // Prefill the name when we are only being asked for a password
+    useEffect(() => {
+        if (needsPassword && !nameInput) {
+            setNameInput(username || sessionStorage.getItem('aeroshare_username') || '');
+        }
+    }, [needsPassword, nameInput, username]);
 
     const handleJoinWithUsername = () => {
         if (!nameInput.trim()) return;
+        if (needsPassword && !passwordInput) return;
 
         const finalName = nameInput.trim();
         sessionStorage.setItem('aeroshare_username', finalName);
-        joinRoom(roomIdParam, finalName);
+        if (passwordInput) {
+            useStore.getState().setRoomPassword(roomIdParam, passwordInput);
+        }
+        joinRoom(roomIdParam, finalName, {
+            password: passwordInput || useStore.getState().roomPasswords[roomIdParam],
+            hostToken: sessionStorage.getItem(`aeroshare_host_${roomIdParam}`) || undefined,
+        });
         setShowNameModal(false);
+        setPasswordInput('');
     };
 
     // Scroll to bottom on new items
@@ -114,6 +235,25 @@ export default function RoomPage() {
         });
     };
 
+    const handleFolderSelect = (files: FileList | null) => {
+        if (!files || files.length === 0) return;
+
+        foldersFromInput(files).forEach(folder => {
+            sendFolder(folder);
+        });
+    };
+
+    const answerVerification = (matches: boolean) => {
+        if (!verifying?.fingerprint) return;
+        setFingerprintVerified(verifying.fingerprint, matches);
+        if (matches) {
+            addLog('success', `Verified ${verifyingName}`);
+        } else {
+            addLog('error', `Codes didn't match with ${verifyingName}; someone may be intercepting the connection`);
+        }
+        setVerifyingPeerId(null);
+    };
+
     const copyLink = async () => {
         const link = getRoomLink();
         await navigator.clipboard.writeText(link);
@@ -138,11 +278,15 @@ export default function RoomPage() {
         setIsDragging(false);
     }, []);
 
-    const handleDrop = useCallback((e: React.DragEvent) => {
+    const handleDrop = useCallback(async (e: React.DragEvent) => {
         e.preventDefault();
         setIsDragging(false);
-        handleFileSelect(e.dataTransfer.files);
-    }, []);
+
+        // Dropped folders go as whole folders, anything else file by file
+        const { files, folders } = await readDrop(e.dataTransfer);
+        files.forEach(file => sendFile(file));
+        folders.forEach(folder => sendFolder(folder));
+    }, [sendFile, sendFolder]);
 
     const connectedPeersCount = Array.from(peerConnections.values()).filter(pc => pc.connected).length;
 
@@ -153,6 +297,16 @@ export default function RoomPage() {
         return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
     };
 
+    // Speed and time left, e.g. "2.4 MB/s · 1m 20s left"
+    const formatRate = (bytesPerSecond?: number, eta?: number | null) => {
+        if (!bytesPerSecond) return '';
+        const speed = `${formatFileSize(Math.round(bytesPerSecond))}/s`;
+        if (eta === null || eta === undefined) return speed;
+        const seconds = Math.ceil(eta);
+        const left = seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+        return `${speed} · ${left} left`;
+    };
+
     // Combine messages and transfers into a unified feed, sorted by timestamp
     const feedItems = [
         ...messages.map(m => ({ ...m, itemType: 'message' as const })),
@@ -181,18 +335,26 @@ export default function RoomPage() {
                 </div>
             )}
 
-            {/* Username Modal */}
-            {showNameModal && (
+            {/* Username / Password Modal */}
+            {(showNameModal || needsPassword) && (
                 <div className="fixed inset-0 z-[60] bg-black/80 flex items-center justify-center p-4">
                     <div className="bg-[#1a1a2e] rounded-2xl p-8 max-w-md w-full border border-white/10 shadow-2xl">
                         <div className="text-center mb-6">
                             <div className="w-16 h-16 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center mx-auto mb-4 shadow-lg shadow-purple-500/20">
-                                <User className="w-8 h-8 text-white" />
+                                {needsPassword ? <Lock className="w-8 h-8 text-white" /> : <User className="w-8 h-8 text-white" />}
                             </div>
                             <h2 className="text-2xl font-bold text-white mb-2">Join Room</h2>
-                            <p className="text-gray-400">Enter your name to join the conversation</p>
+                            <p className="text-gray-400">
+                                {needsPassword ? 'This room is password protected' : 'Enter your name to join the conversation'}
+                            </p>
                         </div>
 
+                        {joinError?.code === 'AUTH_FAILED' && (
+                            <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-3 mb-4">
+                                <p className="text-red-300 text-sm text-center">{joinError.message}</p>
+                            </div>
+                        )}
+
                         <div className="space-y-4">
                             <div>
                                 <label className="block text-sm font-medium text-gray-400 mb-1.5">Display Name</label>
@@ -202,13 +364,29 @@ export default function RoomPage() {
                                     onChange={(e) => setNameInput(e.target.value)}
                                     onKeyDown={(e) => e.key === 'Enter' && handleJoinWithUsername()}
                                     placeholder="e.g. Alex"
+                                    maxLength={LIMITS.username}
                                     className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-gray-600 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 transition-all"
-                                    autoFocus
+                                    autoFocus={!needsPassword}
                                 />
                             </div>
+                            {needsPassword && (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-400 mb-1.5">Room Password</label>
+                                    <input
+                                        type="password"
+                                        value={passwordInput}
+                                        onChange={(e) => setPasswordInput(e.target.value)}
+                                        onKeyDown={(e) => e.key === 'Enter' && handleJoinWithUsername()}
+                                        placeholder="Enter the room password"
+                                        maxLength={LIMITS.password}
+                                        className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-gray-600 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 transition-all"
+                                        autoFocus
+                                    />
+                                </div>
+                            )}
                             <button
                                 onClick={handleJoinWithUsername}
-                                disabled={!nameInput.trim()}
+                                disabled={!nameInput.trim() || (needsPassword && !passwordInput)}
                                 className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium py-3 rounded-xl transition-all shadow-lg shadow-purple-500/20"
                             >
                                 Join Room
@@ -218,6 +396,54 @@ export default function RoomPage() {
                 </div>
             )}
 
+            {/* Removed / Refused Modal */}
+            {(removedReason || isRefused || isDisconnected) && (
+                <div className="fixed inset-0 z-[60] bg-black/80 flex items-center justify-center p-4">
+                    <div className="bg-[#1a1a2e] rounded-2xl p-8 max-w-md w-full border border-white/10 shadow-2xl text-center">
+                        <div className="w-16 h-16 rounded-full bg-red-500/20 flex items-center justify-center mx-auto mb-4">
+                            {removedReason === 'banned' || joinError?.code === 'BANNED'
+                                ? <Ban className="w-8 h-8 text-red-400" />
+                                : <Lock className="w-8 h-8 text-red-400" />}
+                        </div>
+                        <h2 className="text-2xl font-bold text-white mb-2">
+                            {removedReason || isDisconnected ? 'Removed from Room' : 'Unable to Join'}
+                        </h2>
+                        <p className="text-gray-400 mb-6">
+                            {removedReason === 'kicked' && 'The host removed you from this room.'}
+                            {removedReason === 'banned' && 'The host banned you from this room.'}
+                            {!removedReason && lobbyStatus === 'denied' && 'The host declined your request to join.'}
+                            {!removedReason && lobbyStatus !== 'denied' && joinError && describeError(joinError)}
+                            {keyStatus === 'invalid' && 'The encryption key in this link is damaged. Ask for the room link again.'}
+                        </p>
+                        <button
+                            onClick={handleLeave}
+                            className="w-full bg-white/5 hover:bg-white/10 border border-white/10 text-white font-medium py-3 rounded-xl transition-all"
+                        >
+                            Back to Home
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Lobby Waiting Modal */}
+            {lobbyStatus === 'waiting' && (
+                <div className="fixed inset-0 z-[60] bg-black/80 flex items-center justify-center p-4">
+                    <div className="bg-[#1a1a2e] rounded-2xl p-8 max-w-md w-full border border-white/10 shadow-2xl text-center">
+                        <div className="w-16 h-16 rounded-full bg-purple-500/20 flex items-center justify-center mx-auto mb-4">
+                            <Loader2 className="w-8 h-8 text-purple-400 animate-spin" />
+                        </div>
+                        <h2 className="text-2xl font-bold text-white mb-2">Waiting for Host</h2>
+                        <p className="text-gray-400 mb-6">The host will let you in shortly.</p>
+                        <button
+                            onClick={handleLeave}
+                            className="w-full bg-white/5 hover:bg-white/10 border border-white/10 text-white font-medium py-3 rounded-xl transition-all"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* QR Modal */}
             {showQR && (
                 <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={() => setShowQR(false)}>
@@ -238,6 +464,60 @@ export default function RoomPage() {
                 </div>
             )}
 
+            {/* Verify Peer Modal */}
+            {verifying?.sas && (
+                <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={() => setVerifyingPeerId(null)}>
+                    <div className="bg-[#1a1a2e] rounded-2xl p-6 max-w-md w-full border border-white/10" onClick={e => e.stopPropagation()}>
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg font-medium text-white">Verify {verifyingName}</h3>
+                            <button onClick={() => setVerifyingPeerId(null)} className="text-gray-400 hover:text-white">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <p className="text-gray-400 text-sm mb-4">
+                            Check that {verifyingName} sees the same symbols in the same order. Compare them in person or on a call, not in this room&apos;s chat.
+                        </p>
+                        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-6">
+                            {verifying.sas.map((symbol, i) => (
+                                <div key={i} className="flex flex-col items-center gap-1 p-2 rounded-lg bg-white/5 border border-white/5">
+                                    <span className="text-3xl">{symbol.emoji}</span>
+                                    <span className="text-[10px] text-gray-400 text-center">{symbol.name}</span>
+                                </div>
+                            ))}
+                        </div>
+                        {isVerifyingVerified ? (
+                            <div className="flex items-center justify-between gap-3">
+                                <span className="flex items-center gap-1.5 text-sm text-green-400">
+                                    <BadgeCheck className="w-4 h-4" />
+                                    You verified this device
+                                </span>
+                                <button
+                                    onClick={() => answerVerification(false)}
+                                    className="px-3 py-2 text-sm bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 rounded-lg transition-colors"
+                                >
+                                    Remove Verification
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="grid grid-cols-2 gap-3">
+                                <button
+                                    onClick={() => answerVerification(false)}
+                                    className="py-2.5 text-sm bg-red-500/10 hover:bg-red-500/20 border border-red-500/20 text-red-300 rounded-xl transition-colors"
+                                >
+                                    They Don&apos;t Match
+                                </button>
+                                <button
+                                    onClick={() => answerVerification(true)}
+                                    className="py-2.5 text-sm bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white font-medium rounded-xl transition-all"
+                                >
+                                    They Match
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
             {/* Header */}
             <header className="bg-[#12121f] border-b border-white/5 px-4 py-3 flex items-center justify-between shrink-0">
                 <div className="flex items-center gap-3">
@@ -262,6 +542,17 @@ export default function RoomPage() {
                         </span>
                     </div>
 
+                    {/* End-to-end encryption with the link's room key */}
+                    {roomKey && (
+                        <div
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-green-500/10 border border-green-500/20"
+                            title="Chat and files are encrypted with the key in the room link. Anyone without the full link can't read them."
+                        >
+                            <Lock className="w-4 h-4 text-green-400" />
+                            <span className="hidden sm:inline text-sm text-green-400">Encrypted</span>
+                        </div>
+                    )}
+
                     {/* QR Button */}
                     <button
                         onClick={() => setShowQR(true)}
@@ -291,6 +582,17 @@ export default function RoomPage() {
                 </div>
             </header>
 
+            {/* Server limit notice */}
+            {notice && (
+                <div className="bg-amber-500/10 border-b border-amber-500/20 px-4 py-2 flex items-center gap-3 text-sm text-amber-300 shrink-0">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span className="flex-1">{describeError(notice)}</span>
+                    <button onClick={() => setNotice(null)} className="text-amber-300/70 hover:text-amber-200">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
             {/* Main Content */}
             <div className="flex-1 flex overflow-hidden">
                 {/* Chat Area */}
@@ -371,7 +673,7 @@ export default function RoomPage() {
                                     const url = URL.createObjectURL(transfer.blob);
                                     const a = document.createElement('a');
                                     a.href = url;
-                                    a.download = transfer.filename;
+                                    a.download = transfer.folder ? `${transfer.filename}.zip` : transfer.filename;
                                     document.body.appendChild(a);
                                     a.click();
                                     document.body.removeChild(a);
@@ -435,25 +737,71 @@ export default function RoomPage() {
                                                 <div className="p-4">
                                                     <div className="flex gap-4">
                                                         {/* File icon for non-media or in-progress */}
-                                                        {(transfer.status !== 'completed' || (!isImage && !isVideo)) && (
+                                                        {(transfer.status !== 'completed' || !blobUrl || (!isImage && !isVideo)) && (
                                                             <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-purple-900/50 to-pink-900/50 border border-purple-500/20 flex items-center justify-center shrink-0">
-                                                                <Download className="w-6 h-6 text-purple-400" />
+                                                                {transfer.folder
+                                                                    ? <Folder className="w-6 h-6 text-purple-400" />
+                                                                    : <Download className="w-6 h-6 text-purple-400" />}
                                                             </div>
                                                         )}
 
                                                         {/* File info */}
                                                         <div className="flex-1 min-w-0">
                                                             <p className="font-medium text-white truncate mb-0.5">{transfer.filename}</p>
-                                                            <p className="text-sm text-gray-500 mb-2">{formatFileSize(transfer.size)}</p>
+                                                            <p className="text-sm text-gray-500 mb-2 flex items-center gap-2">
+                                                                {formatFileSize(transfer.size)}
+                                                                {transfer.folder && (
+                                                                    <span>
+                                                                        · {transfer.folder.files} {transfer.folder.files === 1 ? 'file' : 'files'}
+                                                                    </span>
+                                                                )}
+                                                                {transfer.relayed && (
+                                                                    <span
+                                                                        className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-500/10 border border-amber-500/20 text-[10px] text-amber-300"
+                                                                        title={roomKey
+                                                                            ? 'No direct connection was possible, so this file went through the server, end-to-end encrypted'
+                                                                            : 'No direct connection was possible, so this file went through the server, encrypted. The encryption keys went through the server too, so it could have swapped them to read the file; an encrypted room link rules that out.'}
+                                                                    >
+                                                                        <Server className="w-3 h-3" />
+                                                                        Relayed
+                                                                    </span>
+                                                                )}
+                                                                {transfer.verified && (
+                                                                    <span
+                                                                        className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-green-500/10 border border-green-500/20 text-[10px] text-green-300"
+                                                                        title="The SHA-256 of the received file matches the one the sender computed"
+                                                                    >
+                                                                        <ShieldCheck className="w-3 h-3" />
+                                                                        Verified
+                                                                    </span>
+                                                                )}
+                                                            </p>
 
                                                             {/* Progress */}
-                                                            {transfer.status === 'transferring' && (
+                                                            {(transfer.status === 'transferring' || transfer.status === 'interrupted' || transfer.status === 'paused') && (
                                                                 <>
                                                                     <div className="flex justify-between text-xs mb-1">
-                                                                        <span className="text-purple-400">
-                                                                            {transfer.direction === 'send' ? 'Uploading...' : 'Downloading...'}
+                                                                        {transfer.status === 'interrupted' ? (
+                                                                            <span className="text-amber-400 flex items-center gap-1">
+                                                                                <Loader2 className="w-3 h-3 animate-spin" />
+                                                                                Connection lost, waiting to resume...
+                                                                            </span>
+                                                                        ) : transfer.status === 'paused' ? (
+                                                                            <span className="text-gray-400 flex items-center gap-1">
+                                                                                <Pause className="w-3 h-3" />
+                                                                                Paused
+                                                                            </span>
+                                                                        ) : (
+                                                                            <span className="text-purple-400">
+                                                                                {transfer.direction === 'send' ? 'Uploading...' : 'Downloading...'}
+                                                                            </span>
+                                                                        )}
+                                                                        <span className="text-white">
+                                                                            {transfer.status === 'transferring' && formatRate(transfer.bytesPerSecond, transfer.eta) && (
+                                                                                <span className="text-gray-400 mr-2">{formatRate(transfer.bytesPerSecond, transfer.eta)}</span>
+                                                                            )}
+                                                                            {transfer.progress}%
                                                                         </span>
-                                                                        <span className="text-white">{transfer.progress}%</span>
                                                                     </div>
                                                                     <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
                                                                         <div
@@ -461,11 +809,117 @@ export default function RoomPage() {
                                                                             style={{ width: `${transfer.progress}%` }}
                                                                         />
                                                                     </div>
+                                                                    <div className="flex gap-2 mt-2">
+                                                                        {transfer.status === 'transferring' && (
+                                                                            <button
+                                                                                onClick={() => pauseTransfer(transfer.id)}
+                                                                                className="flex items-center gap-1.5 px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded-lg text-xs text-gray-300 transition-colors"
+                                                                            >
+                                                                                <Pause className="w-3.5 h-3.5" />
+                                                                                Pause
+                                                                            </button>
+                                                                        )}
+                                                                        {transfer.status === 'paused' && (
+                                                                            <button
+                                                                                onClick={() => resumeTransfer(transfer.id)}
+                                                                                className="flex items-center gap-1.5 px-3 py-1.5 bg-purple-600 hover:bg-purple-500 rounded-lg text-xs text-white transition-colors"
+                                                                            >
+                                                                                <Play className="w-3.5 h-3.5" />
+                                                                                Resume
+                                                                            </button>
+                                                                        )}
+                                                                        <button
+                                                                            onClick={() => cancelTransfer(transfer.id)}
+                                                                            className="flex items-center gap-1.5 px-3 py-1.5 bg-white/5 hover:bg-red-500/20 rounded-lg text-xs text-gray-300 hover:text-red-300 transition-colors"
+                                                                        >
+                                                                            <X className="w-3.5 h-3.5" />
+                                                                            Cancel
+                                                                        </button>
+                                                                    </div>
                                                                 </>
                                                             )}
 
+                                                            {/* Queued - waiting for one of the other sends to finish */}
+                                                            {transfer.status === 'queued' && (
+                                                                <div className="flex items-center justify-between gap-2 mt-1">
+                                                                    <div className="flex items-center gap-2">
+                                                                        <Clock className="w-4 h-4 text-gray-400" />
+                                                                        <span className="text-sm text-gray-400">Queued</span>
+                                                                    </div>
+                                                                    <button
+                                                                        onClick={() => cancelTransfer(transfer.id)}
+                                                                        className="flex items-center gap-1.5 px-3 py-1.5 bg-white/5 hover:bg-red-500/20 rounded-lg text-xs text-gray-300 hover:text-red-300 transition-colors"
+                                                                    >
+                                                                        <X className="w-3.5 h-3.5" />
+                                                                        Cancel
+                                                                    </button>
+                                                                </div>
+                                                            )}
+
+                                                            {/* Offer - nothing is received until the user accepts */}
+                                                            {transfer.status === 'pending' && !isOwn && (
+                                                                <div className="mt-2 space-y-2">
+                                                                    <p className="text-xs text-gray-400">Wants to send you this file</p>
+                                                                    <label className="flex items-center gap-2 cursor-pointer select-none">
+                                                                        <input
+                                                                            type="checkbox"
+                                                                            checked={!!alwaysAccept[transfer.id]}
+                                                                            onChange={(e) => setAlwaysAccept(prev => ({ ...prev, [transfer.id]: e.target.checked }))}
+                                                                            className="w-4 h-4 rounded border-white/10 bg-[#12121f] accent-purple-500"
+                                                                        />
+                                                                        <span className="text-xs text-gray-400">Always accept from {transfer.peerName || 'this peer'}</span>
+                                                                    </label>
+                                                                    <div className="flex gap-2">
+                                                                        <button
+                                                                            onClick={() => respondToOffer(transfer.id, true, !!alwaysAccept[transfer.id])}
+                                                                            className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 rounded-lg text-sm text-white transition-colors shadow-lg shadow-purple-600/20"
+                                                                        >
+                                                                            <Check className="w-4 h-4" />
+                                                                            Accept
+                                                                        </button>
+                                                                        <button
+                                                                            onClick={() => respondToOffer(transfer.id, false)}
+                                                                            className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-sm text-gray-300 transition-colors"
+                                                                        >
+                                                                            <X className="w-4 h-4" />
+                                                                            Decline
+                                                                        </button>
+                                                                    </div>
+                                                                </div>
+                                                            )}
+
+                                                            {transfer.status === 'pending' && isOwn && (
+                                                                <div className="flex items-center justify-between gap-2 mt-1">
+                                                                    <div className="flex items-center gap-2">
+                                                                        <Loader2 className="w-4 h-4 text-purple-400 animate-spin" />
+                                                                        <span className="text-sm text-gray-400">Waiting for the receiver to accept...</span>
+                                                                    </div>
+                                                                    <button
+                                                                        onClick={() => cancelTransfer(transfer.id)}
+                                                                        className="flex items-center gap-1.5 px-3 py-1.5 bg-white/5 hover:bg-red-500/20 rounded-lg text-xs text-gray-300 hover:text-red-300 transition-colors"
+                                                                    >
+                                                                        <X className="w-3.5 h-3.5" />
+                                                                        Cancel
+                                                                    </button>
+                                                                </div>
+                                                            )}
+
+                                                            {transfer.status === 'cancelled' && (
+                                                                <div className="flex items-center gap-2 mt-1">
+                                                                    <X className="w-4 h-4 text-gray-400" />
+                                                                    <span className="text-sm text-gray-400">Cancelled</span>
+                                                                </div>
+                                                            )}
+
+                                                            {transfer.status === 'declined' && (
+                                                                <div className="flex items-center gap-2 mt-1">
+                                                                    <X className="w-4 h-4 text-gray-400" />
+                                                                    <span className="text-sm text-gray-400">{isOwn ? 'Declined' : transfer.error || 'You declined this file'}</span>
+                                                                </div>
+                                                            )}
+
                                                             {/* Completed - show download button for received files (non-media or explicit download) */}
-                                                            {transfer.status === 'completed' && !isOwn && (!isImage && !isVideo) && (
+                                                            {transfer.status === 'completed' && !isOwn && !transfer.saved && (!isImage && !isVideo) && (
                                                                 <button
                                                                     onClick={handleDownload}
                                                                     className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 rounded-lg text-sm text-white transition-colors mt-2 shadow-lg shadow-purple-600/20"
@@ -475,6 +929,13 @@ export default function RoomPage() {
                                                                 </button>
                                                             )}
 
+                                                            {transfer.status === 'completed' && !isOwn && transfer.saved && (
+                                                                <div className="flex items-center gap-2 mt-1">
+                                                                    <Check className="w-4 h-4 text-green-400" />
+                                                                    <span className="text-sm text-green-400">Saved to disk</span>
+                                                                </div>
+                                                            )}
+
                                                             {transfer.status === 'completed' && isOwn && (
                                                                 <div className="flex items-center gap-2 mt-1">
                                                                     <Check className="w-4 h-4 text-green-400" />
@@ -488,6 +949,43 @@ export default function RoomPage() {
                                                                     <span className="text-sm text-red-400">{transfer.error || 'Failed'}</span>
                                                                 </div>
                                                             )}
+
+                                                            {/* Per-recipient breakdown of a sent file */}
+                                                            {isOwn && !!transfer.deliveries?.length && (
+                                                                <div className="mt-2">
+                                                                    <button
+                                                                        onClick={() => setExpandedTransfers(prev => ({ ...prev, [transfer.id]: !prev[transfer.id] }))}
+                                                                        className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+                                                                    >
+                                                                        {expandedTransfers[transfer.id] ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                                                                        {transfer.deliveries.length} {transfer.deliveries.length === 1 ? 'recipient' : 'recipients'}
+                                                                    </button>
+                                                                    {expandedTransfers[transfer.id] && (
+                                                                        <ul className="mt-2 space-y-2">
+                                                                            {transfer.deliveries.map(delivery => (
+                                                                                <li key={delivery.peerId} className="text-xs">
+                                                                                    <div className="flex justify-between gap-2 mb-1">
+                                                                                        <span className="text-gray-300 truncate">{delivery.peerName || delivery.peerId}</span>
+                                                                                        <span className={delivery.status === 'failed' ? 'text-red-400 shrink-0' : 'text-gray-400 shrink-0'} title={delivery.error}>
+                                                                                            {DELIVERY_LABELS[delivery.status]}
+                                                                                        </span>
+                                                                                    </div>
+                                                                                    <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+                                                                                        <div
+                                                                                            className="h-full bg-purple-500 rounded-full transition-all duration-300"
+                                                                                            style={{ width: `${progressPercent(delivery.deliveredBytes, transfer.size)}%` }}
+                                                                                        />
+                                                                                    </div>
+                                                                                    <div className="flex justify-between gap-2 mt-1 text-gray-500">
+                                                                                        <span>{formatFileSize(delivery.deliveredBytes)} of {formatFileSize(transfer.size)}</span>
+                                                                                        {delivery.status === 'transferring' && <span>{formatRate(delivery.bytesPerSecond, delivery.eta)}</span>}
+                                                                                    </div>
+                                                                                </li>
+                                                                            ))}
+                                                                        </ul>
+                                                                    )}
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 </div>
@@ -538,6 +1036,23 @@ export default function RoomPage() {
                             >
                                 <Paperclip className="w-5 h-5" />
                             </button>
+                            <input
+                                // webkitdirectory isn't in React's input props
+                                ref={(input) => {
+                                    folderInputRef.current = input;
+                                    input?.setAttribute('webkitdirectory', '');
+                                }}
+                                type="file"
+                                onChange={(e) => handleFolderSelect(e.target.files)}
+                                className="hidden"
+                            />
+                            <button
+                                onClick={() => folderInputRef.current?.click()}
+                                className="p-2 hover:bg-white/5 rounded-lg transition-colors text-gray-400 hover:text-white"
+                                title="Send folder"
+                            >
+                                <FolderUp className="w-5 h-5" />
+                            </button>
                             <button
                                 onClick={handleSendMessage}
                                 disabled={!messageInput.trim()}
@@ -553,9 +1068,29 @@ export default function RoomPage() {
                 <aside className="w-72 bg-[#12121f] border-l border-white/5 p-4 hidden lg:flex flex-col shrink-0">
                     {/* Peers Section */}
                     <div className="mb-6">
-                        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
-                            Peers ({peers.length + 1})
-                        </h3>
+                        <div className="flex items-center justify-between mb-3">
+                            <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                                Peers ({peers.length + 1})
+                            </h3>
+                            {isHost ? (
+                                <button
+                                    onClick={() => setRoomLocked(!roomState.locked)}
+                                    className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs border transition-colors ${roomState.locked
+                                        ? 'bg-red-500/10 border-red-500/20 text-red-400 hover:bg-red-500/20'
+                                        : 'bg-white/5 border-white/5 text-gray-400 hover:bg-white/10'
+                                        }`}
+                                    title={roomState.locked ? 'Unlock room' : 'Lock room'}
+                                >
+                                    {roomState.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                                    {roomState.locked ? 'Locked' : 'Lock'}
+                                </button>
+                            ) : roomState.locked && (
+                                <span className="flex items-center gap-1 text-xs text-red-400" title="Room is locked">
+                                    <Lock className="w-3 h-3" />
+                                    Locked
+                                </span>
+                            )}
+                        </div>
                         <div className="space-y-2">
                             {/* You */}
                             <div className="flex items-center gap-3 p-2 rounded-lg bg-white/5 border border-white/5">
@@ -568,7 +1103,10 @@ export default function RoomPage() {
                                     <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-green-400 rounded-full border-2 border-[#12121f]" />
                                 </div>
                                 <div className="min-w-0">
-                                    <p className="text-white text-sm font-medium truncate">You</p>
+                                    <p className="text-white text-sm font-medium truncate flex items-center gap-1">
+                                        You
+                                        {isHost && <Crown className="w-3.5 h-3.5 text-yellow-400" />}
+                                    </p>
                                     <p className="text-xs text-gray-500 truncate">{username}</p>
                                 </div>
                             </div>
@@ -577,10 +1115,11 @@ export default function RoomPage() {
                             {peers.map(peer => {
                                 const pc = peerConnections.get(peer.id);
                                 const isConnectedPeer = pc?.connected;
+                                const isVerifiedPeer = !!pc?.fingerprint && verifiedFingerprints.includes(pc.fingerprint);
                                 const avatarColor = getAvatarColor(peer.id);
 
                                 return (
-                                    <div key={peer.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 transition-colors border border-transparent hover:border-white/5">
+                                    <div key={peer.id} className="group flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 transition-colors border border-transparent hover:border-white/5">
                                         <div className="relative">
                                             <div className={`w-10 h-10 rounded-full ${avatarColor} flex items-center justify-center shadow-lg`}>
                                                 <span className="text-white font-medium text-sm">
@@ -589,7 +1128,46 @@ export default function RoomPage() {
                                             </div>
                                             <div className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-[#12121f] ${isConnectedPeer ? 'bg-green-400' : 'bg-gray-500'}`} />
                                         </div>
-                                        <span className="text-white text-sm truncate">{peer.username || `Peer-${peer.id.slice(0, 4)}`}</span>
+                                        <span className="text-white text-sm truncate flex-1 flex items-center gap-1">
+                                            {peer.username || `Peer-${peer.id.slice(0, 4)}`}
+                                            {roomState.hostId === peer.id && <Crown className="w-3.5 h-3.5 text-yellow-400 shrink-0" />}
+                                            {isVerifiedPeer && (
+                                                <span title="Verified device">
+                                                    <BadgeCheck className="w-3.5 h-3.5 text-green-400 shrink-0" />
+                                                </span>
+                                            )}
+                                        </span>
+
+                                        {/* Verification code, once connected */}
+                                        {pc?.sas && (
+                                            <button
+                                                onClick={() => setVerifyingPeerId(peer.id)}
+                                                className={`p-1.5 rounded-md hover:bg-white/10 transition-colors ${isVerifiedPeer ? 'text-gray-600 hover:text-gray-300' : 'text-gray-400 hover:text-white'}`}
+                                                title="Verify peer"
+                                            >
+                                                <Fingerprint className="w-4 h-4" />
+                                            </button>
+                                        )}
+
+                                        {/* Host controls */}
+                                        {isHost && (
+                                            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                <button
+                                                    onClick={() => kickPeer(peer.id)}
+                                                    className="p-1.5 rounded-md hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
+                                                    title="Kick"
+                                                >
+                                                    <UserX className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => banPeer(peer.id)}
+                                                    className="p-1.5 rounded-md hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors"
+                                                    title="Ban"
+                                                >
+                                                    <Ban className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        )}
                                     </div>
                                 );
                             })}
@@ -602,6 +1180,39 @@ export default function RoomPage() {
                         </div>
                     </div>
 
+                    {/* Lobby Requests (host only) */}
+                    {isHost && knocks.length > 0 && (
+                        <div className="mb-6">
+                            <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
+                                Waiting to Join ({knocks.length})
+                            </h3>
+                            <div className="space-y-2">
+                                {knocks.map(knock => (
+                                    <div key={knock.peerId} className="flex items-center gap-3 p-2 rounded-lg bg-purple-500/5 border border-purple-500/20">
+                                        <DoorOpen className="w-4 h-4 text-purple-400 shrink-0" />
+                                        <span className="text-white text-sm truncate flex-1">
+                                            {knock.username || `Peer-${knock.peerId.slice(0, 4)}`}
+                                        </span>
+                                        <button
+                                            onClick={() => answerKnock(knock.peerId, true)}
+                                            className="p-1.5 rounded-md bg-green-500/10 hover:bg-green-500/20 text-green-400 transition-colors"
+                                            title="Let in"
+                                        >
+                                            <Check className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => answerKnock(knock.peerId, false)}
+                                            className="p-1.5 rounded-md bg-red-500/10 hover:bg-red-500/20 text-red-400 transition-colors"
+                                            title="Deny"
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Transfer Stats */}
                     <div className="mt-auto">
                         <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
@@ -612,6 +1223,23 @@ export default function RoomPage() {
                                 <span className="text-gray-400 text-sm">Active Transfers</span>
                                 <span className="text-white font-semibold">{activeTransfers}</span>
                             </div>
+                            <div className="flex justify-between items-center">
+                                <span className="text-gray-400 text-sm">Queued</span>
+                                <span className="text-white font-semibold">{sendQueue.length}</span>
+                            </div>
+                            <div className="flex justify-between items-center">
+                                <label htmlFor="send-concurrency" className="text-gray-400 text-sm">Files at Once</label>
+                                <select
+                                    id="send-concurrency"
+                                    value={sendConcurrency}
+                                    onChange={(e) => setSendConcurrency(Number(e.target.value))}
+                                    className="bg-[#12121f] border border-white/10 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-purple-500"
+                                >
+                                    {Array.from(new Set([1, 2, 3, 4, 6, 8, sendConcurrency])).sort((a, b) => a - b).map(n => (
+                                        <option key={n} value={n}>{n}</option>
+                                    ))}
+                                </select>
+                            </div>
                             <div className="flex justify-between items-center">
                                 <span className="text-gray-400 text-sm">Total Sent</span>
                                 <span className="text-purple-400 font-semibold">{formatFileSize(totalSent)}</span>
@@ -3,6 +3,8 @@
 import { useCallback } from 'react';
 import { useStore } from '@/store/useStore';
 import { useWebRTC } from './useWebRTC';
+import { CreateRoomRequest, CreateRoomResponse, JoinAuth } from '@/types';
+import { roomKeyFragment } from '@/lib/roomKey';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -13,8 +15,10 @@ export function useRoom() {
         isConnected,
         peers,
         peerConnections,
+        roomKey,
         setRoomId,
         setUsername,
+        setJoinError,
         reset,
     } = useStore();
 
@@ -25,39 +29,47 @@ export function useRoom() {
         leaveRoom: signalingLeave,
         sendChatMessage,
         sendFile,
+        sendFolder,
+        respondToOffer,
+        pauseTransfer,
+        resumeTransfer,
+        cancelTransfer,
+        kickPeer,
+        banPeer,
+        setRoomLocked,
+        answerKnock,
     } = useWebRTC();
 
-    const createRoom = useCallback(async (): Promise<string | null> => {
+    const createRoom = useCallback(async (password?: string): Promise<CreateRoomResponse | null> => {
         try {
+            const body: CreateRoomRequest = { password };
             const response = await fetch(`${API_URL}/create-room`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
             });
 
             if (!response.ok) {
                 throw new Error('Failed to create room');
             }
 
-            const { roomId: newRoomId } = await response.json();
-            return newRoomId;
+            const room: CreateRoomResponse = await response.json();
+            return room;
         } catch (error) {
             console.error('[Room] Failed to create room:', error);
             return null;
         }
     }, []);
 
-    const joinRoom = useCallback(async (targetRoomId: string, name: string) => {
+    const joinRoom = useCallback(async (targetRoomId: string, name: string, auth: JoinAuth = {}) => {
         setRoomId(targetRoomId);
         setUsername(name);
+        setJoinError(null);
 
-        // Connect to signaling server
+        // Connect to signaling server; the join is sent once the server welcomes us
         connect();
-
-        // Wait for connection then join
-        setTimeout(() => {
-            signalingJoin(targetRoomId, name);
-        }, 500);
-    }, [connect, signalingJoin, setRoomId, setUsername]);
+        signalingJoin(targetRoomId, name, auth);
+    }, [connect, signalingJoin, setRoomId, setUsername, setJoinError]);
 
     const leaveRoom = useCallback(() => {
         signalingLeave();
@@ -71,8 +83,9 @@ export function useRoom() {
 
     const getRoomLink = useCallback(() => {
         if (typeof window === 'undefined' || !roomId) return '';
-        return `${process.env.NEXT_PUBLIC_API_IP}/room/${roomId}`;
-    }, [roomId]);
+        // The key only ever travels in the fragment, which isn't sent to the server
+        return `${process.env.NEXT_PUBLIC_API_IP}/room/${roomId}${roomKey ? roomKeyFragment(roomKey.encoded) : ''}`;
+    }, [roomId, roomKey]);
 
     return {
         roomId,
@@ -84,6 +97,15 @@ export function useRoom() {
         leaveRoom,
         sendChatMessage,
         sendFile,
+        sendFolder,
+        respondToOffer,
+        pauseTransfer,
+        resumeTransfer,
+        cancelTransfer,
+        kickPeer,
+        banPeer,
+        setRoomLocked,
+        answerKnock,
         getConnectedPeers,
         getRoomLink,
     };
@@ -10,11 +10,33 @@ import {
     OfferMessage,
     AnswerMessage,
     CandidateMessage,
+    RelayKeyMessage,
+    RelayMessage,
+    RelayAckMessage,
+    RelayFrame,
+    ErrorMessage,
+    SignalingError,
+    RoomStateMessage,
+    KnockMessage,
+    KnockCancelledMessage,
+    WelcomeMessage,
+    ResumeMessage,
     PeerInfo,
+    JoinAuth,
+    ErrorCode,
 } from '@/types';
+import { parseServerMessage } from '@shared/validation';
+import { setIceServerAccess } from '@/lib/iceServers';
+import { PROTOCOL_VERSION, CAPABILITIES } from '@/lib/protocol';
 
 const SIGNALING_URL = process.env.NEXT_PUBLIC_SIGNALING_URL || 'ws://localhost:3001';
 
+// Errors that mean our join was refused
+const JOIN_ERROR_CODES: ErrorCode[] = ['AUTH_REQUIRED', 'AUTH_FAILED', 'ROOM_LOCKED', 'BANNED', 'INVALID_ROOM_ID', 'ROOM_FULL'];
+
+// Messages another peer sends us through the server
+const FORWARDED_TYPES = ['offer', 'answer', 'candidate', 'relay-key', 'relay', 'relay-ack'];
+
 export function useSignaling() {
     const wsRef = useRef<WebSocket | null>(null);
     const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -28,6 +50,14 @@ export function useSignaling() {
         setPeers,
         addPeer,
         removePeer,
+        setJoinError,
+        setNotice,
+        setRelayAvailable,
+        setRoomState,
+        setRemovedReason,
+        setLobbyStatus,
+        addKnock,
+        removeKnock,
         addLog,
     } = useStore();
 
@@ -44,8 +74,40 @@ export function useSignaling() {
         onPeerJoined?: (msg: PeerJoinedMessage) => void;
         onPeerLeft?: (msg: PeerLeftMessage) => void;
         onPeerList?: (peers: PeerInfo[]) => void;
+        onRemoved?: () => void;
+        onRelayKey?: (msg: RelayKeyMessage) => void;
+        onRelay?: (msg: RelayMessage) => void;
+        onRelayAck?: (msg: RelayAckMessage) => void;
+        onRelayError?: (error: SignalingError) => void;
     }>({});
 
+    // Server-issued identity, plus the join to replay if a resume fails
+    const sessionRef = useRef<{
+        ready: boolean; // welcome received on the current socket
+        resumeToken: string | null;
+        resuming: boolean;
+        freshWelcome: WelcomeMessage['payload'] | null;
+        join: { roomId: string; name: string; auth: JoinAuth } | null;
+        joinSent: boolean;
+    }>({ ready: false, resumeToken: null, resuming: false, freshWelcome: null, join: null, joinSent: false });
+
+    const sendJoin = useCallback(() => {
+        const { join } = sessionRef.current;
+        const ws = wsRef.current;
+        if (!join || !ws || ws.readyState !== WebSocket.OPEN) return;
+
+        const joinMessage: SignalingMessage = {
+            type: 'join',
+            roomId: join.roomId,
+            senderId: stateRef.current.peerId || '',
+            payload: { username: join.name, ...join.auth, version: PROTOCOL_VERSION, capabilities: CAPABILITIES },
+        };
+
+        ws.send(JSON.stringify(joinMessage));
+        sessionRef.current.joinSent = true;
+        addLog('info', `Joining room ${join.roomId} as ${join.name}`);
+    }, [addLog]);
+
     const connect = useCallback(() => {
         if (wsRef.current?.readyState === WebSocket.OPEN) return;
 
@@ -56,13 +118,28 @@ export function useSignaling() {
             console.log('[Signaling] Connected');
             addLog('success', 'Connected to signaling server');
             setConnected(true);
+
+            // Reclaim our previous identity and room membership after a drop
+            const session = sessionRef.current;
+            if (session.resumeToken && session.join && session.joinSent && stateRef.current.peerId) {
+                const resumeMessage: ResumeMessage = {
+                    type: 'resume',
+                    roomId: session.join.roomId,
+                    senderId: stateRef.current.peerId,
+                    payload: { resumeToken: session.resumeToken },
+                };
+                session.resuming = true;
+                ws.send(JSON.stringify(resumeMessage));
+                addLog('info', 'Resuming previous session...');
+            }
         };
 
         ws.onclose = () => {
             console.log('[Signaling] Disconnected');
             addLog('warn', 'Disconnected from signaling server');
             setConnected(false);
-            setPeerId(null);
+            sessionRef.current.ready = false;
+            sessionRef.current.resuming = false;
 
             // Attempt reconnect after 3 seconds
             reconnectTimeoutRef.current = setTimeout(() => {
@@ -79,22 +156,59 @@ export function useSignaling() {
         };
 
         ws.onmessage = (event) => {
-            try {
-                const message: SignalingMessage = JSON.parse(event.data);
-                handleMessage(message);
-            } catch (error) {
-                console.error('[Signaling] Failed to parse message:', error);
-                addLog('error', 'Failed to parse signaling message');
+            const result = parseServerMessage(String(event.data));
+            if (!result.ok) {
+                console.error('[Signaling] Invalid message:', result.error);
+                addLog('error', `Ignored invalid signaling message: ${result.error}`);
+                return;
             }
+            handleMessage(result.message);
         };
-    }, [setConnected, setPeerId, addLog]); // Removed roomId dependency
+    }, [setConnected, addLog]); // Removed roomId dependency
 
     const handleMessage = useCallback((message: SignalingMessage) => {
+        // Only peers in our room may negotiate with us
+        const isForwarded = FORWARDED_TYPES.includes(message.type);
+        if (isForwarded && !useStore.getState().peers.some(p => p.id === message.senderId)) {
+            console.warn(`[Signaling] Ignoring ${message.type} from non-member ${message.senderId}`);
+            return;
+        }
+
         switch (message.type) {
+            case 'welcome': {
+                const { payload } = message as WelcomeMessage;
+                const session = sessionRef.current;
+
+                // Identity for the new socket; only needed if the resume fails
+                if (session.resuming && payload.peerId !== stateRef.current.peerId) {
+                    session.freshWelcome = payload;
+                    break;
+                }
+
+                const resumed = session.resuming;
+                session.ready = true;
+                session.resuming = false;
+                session.resumeToken = payload.resumeToken;
+                stateRef.current.peerId = payload.peerId;
+                setPeerId(payload.peerId);
+                setRelayAvailable(payload.relay);
+
+                if (resumed) {
+                    addLog('success', 'Session resumed');
+                } else if (session.join && !session.joinSent) {
+                    sendJoin();
+                }
+                break;
+            }
+
             case 'peer-list': {
                 const { payload } = message as PeerListMessage;
                 const filteredPeers = payload.filter(p => p.id !== stateRef.current.peerId);
+                setLobbyStatus(null);
                 setPeers(filteredPeers);
+                // Sent on every join and resume, so the token is current
+                const { join, resumeToken } = sessionRef.current;
+                if (join && resumeToken) setIceServerAccess({ roomId: join.roomId, resumeToken });
                 addLog('info', `Received peer list: ${filteredPeers.length} peers`);
                 messageHandlersRef.current.onPeerList?.(filteredPeers);
                 break;
@@ -112,12 +226,57 @@ export function useSignaling() {
 
             case 'peer-left': {
                 const { payload } = message as PeerLeftMessage;
+
+                // The host removed us from the room
+                if (payload.peerId === stateRef.current.peerId) {
+                    sessionRef.current.join = null; // Never resume or rejoin automatically
+                    setIceServerAccess(null);
+                    setRemovedReason(payload.reason);
+                    setPeers([]);
+                    addLog('error', `You were ${payload.reason} from the room`);
+                    messageHandlersRef.current.onRemoved?.();
+                    break;
+                }
+
                 removePeer(payload.peerId);
-                addLog('info', `Peer left: ${payload.peerId}`);
+                addLog('info', payload.reason === 'left'
+                    ? `Peer left: ${payload.peerId}`
+                    : `Peer ${payload.reason}: ${payload.peerId}`);
                 messageHandlersRef.current.onPeerLeft?.(message as PeerLeftMessage);
                 break;
             }
 
+            case 'room-state': {
+                const { payload } = message as RoomStateMessage;
+                setRoomState(payload);
+                break;
+            }
+
+            case 'lobby-waiting': {
+                setLobbyStatus('waiting');
+                addLog('info', 'Waiting for the host to let you in');
+                break;
+            }
+
+            case 'lobby-denied': {
+                setLobbyStatus('denied');
+                addLog('error', 'The host denied your request to join');
+                break;
+            }
+
+            case 'knock': {
+                const { payload } = message as KnockMessage;
+                addKnock(payload);
+                addLog('info', `${payload.username || payload.peerId} is waiting in the lobby`);
+                break;
+            }
+
+            case 'knock-cancelled': {
+                const { payload } = message as KnockCancelledMessage;
+                removeKnock(payload.peerId);
+                break;
+            }
+
             case 'offer': {
                 messageHandlersRef.current.onOffer?.(message as OfferMessage);
                 break;
@@ -133,37 +292,87 @@ export function useSignaling() {
                 break;
             }
 
-            case 'error': {
-                console.error('[Signaling] Error:', message.payload);
-                addLog('error', `Signaling error: ${JSON.stringify(message.payload)}`);
+            case 'relay-key': {
+                messageHandlersRef.current.onRelayKey?.(message as RelayKeyMessage);
                 break;
             }
-        }
-    }, [setPeers, addPeer, removePeer, addLog]);
 
-    const joinRoom = useCallback((targetRoomId: string, name: string) => {
-        if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-            console.error('[Signaling] Not connected');
-            addLog('error', 'Cannot join room: Not connected to signaling server');
-            return;
-        }
+            case 'relay': {
+                messageHandlersRef.current.onRelay?.(message as RelayMessage);
+                break;
+            }
+
+            case 'relay-ack': {
+                messageHandlersRef.current.onRelayAck?.(message as RelayAckMessage);
+                break;
+            }
 
-        const newPeerId = Math.random().toString(36).slice(2) + Date.now().toString(36);
-        setPeerId(newPeerId);
+            case 'error': {
+                const { payload } = message as ErrorMessage;
+                console.error('[Signaling] Error:', payload);
+                addLog('error', `Signaling error: ${JSON.stringify(payload)}`);
 
-        const joinMessage: SignalingMessage = {
-            type: 'join',
-            roomId: targetRoomId,
-            senderId: newPeerId,
-            payload: { username: name },
-        };
+                // Join was rejected; surface it so the room page can prompt the user
+                if (JOIN_ERROR_CODES.includes(payload.code)) {
+                    setJoinError(payload);
+                }
+
+                // We hit a server limit; tell the user rather than dropping messages silently
+                if (payload.code === 'RATE_LIMITED' || payload.code === 'RELAY_QUOTA_EXCEEDED') {
+                    setNotice(payload);
+                }
+
+                // Relayed transfers can't continue
+                if (payload.code === 'RELAY_DISABLED' || payload.code === 'RELAY_QUOTA_EXCEEDED') {
+                    messageHandlersRef.current.onRelayError?.(payload);
+                }
 
-        wsRef.current.send(JSON.stringify(joinMessage));
-        addLog('info', `Joining room ${targetRoomId} as ${name}`);
-    }, [setPeerId, addLog]);
+                // An operator removed us or closed the room; the server hangs up next
+                if (payload.code === 'DISCONNECTED' || payload.code === 'ROOM_CLOSED') {
+                    sessionRef.current.join = null; // Never resume or rejoin automatically
+                    setIceServerAccess(null);
+                    setJoinError(payload);
+                    setPeers([]);
+                    messageHandlersRef.current.onRemoved?.();
+                }
+
+                // Our old identity is gone: drop its peer connections and join afresh
+                if (payload.code === 'RESUME_FAILED') {
+                    const session = sessionRef.current;
+                    const fresh = session.freshWelcome;
+                    session.resuming = false;
+                    session.freshWelcome = null;
+                    setPeers([]);
+                    messageHandlersRef.current.onRemoved?.();
+
+                    if (fresh) {
+                        session.ready = true;
+                        session.resumeToken = fresh.resumeToken;
+                        session.joinSent = false;
+                        stateRef.current.peerId = fresh.peerId;
+                        setPeerId(fresh.peerId);
+                        sendJoin();
+                    }
+                }
+                break;
+            }
+        }
+    }, [setPeerId, setRelayAvailable, setPeers, addPeer, removePeer, setJoinError, setNotice, setRoomState, setRemovedReason, setLobbyStatus, addKnock, removeKnock, sendJoin, addLog]);
+
+    // Joins are queued until the server has welcomed us with our peer ID
+    const joinRoom = useCallback((targetRoomId: string, name: string, auth: JoinAuth = {}) => {
+        sessionRef.current.join = { roomId: targetRoomId, name, auth };
+        sessionRef.current.joinSent = false;
+
+        if (sessionRef.current.ready) {
+            sendJoin();
+        }
+    }, [sendJoin]);
 
     const leaveRoom = useCallback(() => {
         const { roomId, peerId } = stateRef.current;
+        sessionRef.current.join = null;
+        setIceServerAccess(null);
         if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN || !roomId || !peerId) {
             return;
         }
@@ -222,6 +431,50 @@ export function useSignaling() {
         wsRef.current.send(JSON.stringify(message));
     }, []);
 
+    const sendRelayMessage = useCallback((type: 'relay-key' | 'relay' | 'relay-ack', targetId: string, payload: unknown): boolean => {
+        const { roomId, peerId } = stateRef.current;
+        if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN || !roomId || !peerId) return false;
+
+        const message: SignalingMessage = {
+            type,
+            roomId,
+            senderId: peerId,
+            targetId,
+            payload,
+        };
+
+        wsRef.current.send(JSON.stringify(message));
+        return true;
+    }, []);
+
+    const sendRelayKey = useCallback((targetId: string, publicKey: string) => sendRelayMessage('relay-key', targetId, { publicKey }), [sendRelayMessage]);
+    const sendRelay = useCallback((targetId: string, frame: RelayFrame) => sendRelayMessage('relay', targetId, frame), [sendRelayMessage]);
+    const sendRelayAck = useCallback((targetId: string, seq: number) => sendRelayMessage('relay-ack', targetId, { seq }), [sendRelayMessage]);
+
+    // Host moderation: kick/ban/approve/deny target a peer, lock/unlock the whole room
+    const sendModeration = useCallback((type: 'kick' | 'ban' | 'lock' | 'unlock' | 'approve' | 'deny', targetId?: string) => {
+        const { roomId, peerId } = stateRef.current;
+        if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN || !roomId || !peerId) return;
+
+        const message: SignalingMessage = {
+            type,
+            roomId,
+            senderId: peerId,
+            targetId,
+        };
+
+        wsRef.current.send(JSON.stringify(message));
+    }, []);
+
+    const kickPeer = useCallback((targetId: string) => sendModeration('kick', targetId), [sendModeration]);
+    const banPeer = useCallback((targetId: string) => sendModeration('ban', targetId), [sendModeration]);
+    const setRoomLocked = useCallback((locked: boolean) => sendModeration(locked ? 'lock' : 'unlock'), [sendModeration]);
+
+    const answerKnock = useCallback((targetId: string, approved: boolean) => {
+        sendModeration(approved ? 'approve' : 'deny', targetId);
+        removeKnock(targetId);
+    }, [sendModeration, removeKnock]);
+
     const disconnect = useCallback(() => {
         if (reconnectTimeoutRef.current) {
             clearTimeout(reconnectTimeoutRef.current);
@@ -249,6 +502,13 @@ export function useSignaling() {
         sendOffer,
         sendAnswer,
         sendCandidate,
+        sendRelayKey,
+        sendRelay,
+        sendRelayAck,
+        kickPeer,
+        banPeer,
+        setRoomLocked,
+        answerKnock,
         setMessageHandlers,
     };
 }
@@ -1,7 +1,7 @@
 'use client';
 
 import { useCallback, useRef, useEffect } from 'react';
-import { useStore } from '@/store/useStore';
+import { useStore, QueuedSend } from '@/store/useStore';
 import { useSignaling } from './useSignaling';
 import {
     PeerConnection,
@@ -9,6 +9,11 @@ import {
     FileStart,
     FileChunk,
     FileComplete,
+    FileAnswer,
+    ChunkAck,
+    ResumeOffer,
+    ResumeAnswer,
+    Hello,
     ChatMessage,
     DataChannelMessage,
     FileTransfer,
@@ -17,40 +22,291 @@ import {
     CandidateMessage,
     PeerJoinedMessage,
     PeerLeftMessage,
+    PeerInfo,
+    RelayKeyMessage,
+    RelayMessage,
+    RelayAckMessage,
+    SignalingError,
+    PeerProtocol,
+    TransferControl,
+    PeerDelivery,
+    SasCommit,
+    SasReveal,
 } from '@/types';
-
-const ICE_SERVERS: RTCIceServer[] = [
-    // Google STUN servers
-    { urls: 'stun:stun.l.google.com:19302' },
-    { urls: 'stun:stun1.l.google.com:19302' },
-    { urls: 'stun:stun2.l.google.com:19302' },
-    { urls: 'stun:stun3.l.google.com:19302' },
-    { urls: 'stun:stun4.l.google.com:19302' },
-
-    // Additional public STUN servers for redundancy
-    { urls: 'stun:stun.services.mozilla.com' },
-    { urls: 'stun:stun.stunprotocol.org:3478' },
-
-    // Open Relay TURN server (free, public, for testing)
-    // In production, you should use your own TURN server
-    {
-        urls: 'turn:openrelay.metered.ca:80',
-        username: 'openrelayproject',
-        credential: 'openrelayproject',
-    },
-    {
-        urls: 'turn:openrelay.metered.ca:443',
-        username: 'openrelayproject',
-        credential: 'openrelayproject',
-    },
-    {
-        urls: 'turn:openrelay.metered.ca:443?transport=tcp',
-        username: 'openrelayproject',
-        credential: 'openrelayproject',
-    },
-];
+import { getIceServers, subscribeIceServers } from '@/lib/iceServers';
+import { BlockHasher, hashBlob, isSha256Hex } from '@/lib/integrity';
+import { ThroughputMeter, etaSeconds, progressPercent } from '@/lib/throughput';
+import { STRIPE_LABEL, STRIPE_MIN_SIZE, STRIPE_WINDOW, StripeSet, isStripeChannel } from '@/lib/stripes';
+import { FileSink, openSink, openFolderSink, clearAbandonedFiles } from '@/lib/sinks';
+import { MAX_LISTING_BYTES, OutgoingFolder, folderListing, isValidFolder } from '@/lib/folders';
+import { RoomKey, FrameRoute, sealFrame, openFrame, isSealedFrame } from '@/lib/roomKey';
+import {
+    loadDeviceCertificate,
+    fingerprintFromSdp,
+    shortAuthString,
+    createSasNonce,
+    sasCommitment,
+    verifySasReveal,
+} from '@/lib/identity';
+import {
+    RELAY_CHUNK_SIZE,
+    RELAY_WINDOW,
+    RELAY_KEY_TIMEOUT_MS,
+    RELAY_ACK_TIMEOUT_MS,
+    createRelayKeyPair,
+    exportRelayKey,
+    deriveRelayKey,
+    sealRelayKey,
+    fitsRelayFrame,
+    openRelayKey,
+    RELAY_KEY_LABEL,
+    encryptFrame,
+    decryptFrame,
+} from '@/lib/relay';
+import {
+    PROTOCOL_VERSION,
+    CAPABILITIES,
+    LEGACY_PROTOCOL,
+    negotiateProtocol,
+    hasFeature,
+    chunkEncoding,
+    encodeChunk,
+    decodeChunk,
+    decodeBinaryChunk,
+    CHUNK_FLAG_LAST,
+    CONTROL_CHANNEL_LABEL,
+    CONTROL_CHANNEL_OPTIONS,
+    isControlChannel,
+} from '@/lib/protocol';
 
 const CHUNK_SIZE = 64 * 1024; // 64KB chunks
+// A sender stops queueing once a data channel buffers this much, and resumes
+// when it drains below the low-water mark
+const BUFFER_HIGH_WATER = 4 * 1024 * 1024;
+const BUFFER_LOW_WATER = 1024 * 1024;
+// Receivers acknowledge every ACK_INTERVAL chunks, and the last one
+const ACK_INTERVAL = 16;
+// How long a sender waits for the final ack before treating the channel as dead
+const ACK_TIMEOUT_MS = 30000;
+// How long an interrupted transfer waits for its peer to reconnect
+const RESUME_TIMEOUT_MS = 2 * 60 * 1000;
+const MAX_RECONNECT_ATTEMPTS = 3;
+// How often progress, speed and ETA are pushed to the feed
+const PROGRESS_INTERVAL_MS = 500;
+
+// Server relay state for one peer, used when no P2P path exists
+interface RelaySession {
+    key: Promise<CryptoKey>;
+    resolveKey: (key: CryptoKey) => void;
+    keySent: boolean;
+    nextSeq: number;
+    lastReceivedSeq: number;
+    unacked: Set<number>;
+    wake: (() => void) | null; // Resumes a sender waiting for acks
+    error: string | null;
+    outbound: Promise<void>; // Frames are encrypted and sent in order...
+    inbound: Promise<void>; // ...and decrypted in order
+}
+
+// How one file reaches one peer
+interface TransferRoute {
+    peerId: string;
+    relayed: boolean;
+    protocol: PeerProtocol;
+    channel?: RTCDataChannel; // Unset when relayed
+    send: (data: string | ArrayBuffer) => Promise<void>;
+}
+
+// Sender side of one file going to one peer
+interface OutgoingTransfer {
+    fileId: string;
+    peerId: string;
+    acked: number; // Highest contiguous chunk index the peer has confirmed
+    wake: (() => void) | null; // Resumes a sender waiting for an ack
+    // Set while the receiver has yet to accept or decline the file
+    answer: { resolve: (accepted: boolean) => void; reject: (error: Error) => void } | null;
+    // Set while the connection is down and the sender waits to resume
+    waiting: { resolve: (index: number) => void; reject: (error: Error) => void } | null;
+    relayed: boolean; // Control messages go back the way the chunks do
+    paused: boolean; // Either side paused this peer's copy
+    // Set while the send loop waits out a pause
+    unpause: { resolve: () => void; reject: (error: Error) => void } | null;
+    cancelled: boolean;
+}
+
+// A file a peer offered that the user hasn't accepted or declined yet
+interface FileOffer {
+    metadata: FileMetadata;
+    senderId: string;
+    relayed: boolean; // The answer goes back the same way the offer came
+}
+
+// Receiver side of one file; kept across a dropped connection until the
+// transfer resumes or RESUME_TIMEOUT_MS passes
+interface IncomingFile {
+    metadata: FileMetadata;
+    senderId: string;
+    sink: Promise<FileSink>;
+    writing: Promise<void>; // Chunks are written in order, one after another
+    received: number; // Chunks so far
+    receivedSize: number;
+    expiry: ReturnType<typeof setTimeout> | null; // Set while interrupted
+    paused: boolean;
+    meter: ThroughputMeter;
+    reportedAt: number; // When progress last went to the feed
+    ahead: Map<number, Uint8Array>; // Striped chunks that overtook an earlier one
+    hasher: BlockHasher; // Fed each chunk as it's written
+    done: { blockHash?: string; chunks: number } | null; // Set if done overtook the last chunks
+}
+
+// One connection's exchange of nonces for the verification code
+interface Verification {
+    connection: RTCPeerConnection;
+    nonce: string;
+    committed: boolean; // Our commitment has gone out
+    peerCommitment: string | null;
+    revealed: boolean; // Our nonce has gone out
+    finished: boolean; // The peer's nonce arrived
+}
+
+// Stop a send loop wherever it is waiting; it ends as cancelled
+function cancelOutgoing(outgoing: OutgoingTransfer): void {
+    const error = new Error('Transfer cancelled');
+    outgoing.cancelled = true;
+    outgoing.answer?.reject(error);
+    outgoing.waiting?.reject(error);
+    outgoing.unpause?.reject(error);
+    outgoing.wake?.();
+}
+
+function transferKey(fileId: string, peerId: string): string {
+    return `${fileId}:${peerId}`;
+}
+
+// Sealing is async, so each channel's sealed frames wait here to go out in
+// the order they were sent
+const sealQueues = new WeakMap<RTCDataChannel, Promise<boolean>>();
+
+// Sealed frames from this tab to a peer, on channels with this label
+function routeTo(peerId: string, label: string): FrameRoute {
+    return { senderId: useStore.getState().peerId || '', receiverId: peerId, channel: label };
+}
+
+function routeFrom(peerId: string, label: string): FrameRoute {
+    return { senderId: peerId, receiverId: useStore.getState().peerId || '', channel: label };
+}
+
+// Send to a peer on a data channel, sealed with the room key if there is
+// one. Resolves false if the channel closed before the frame went out.
+function transmit(peerId: string, channel: RTCDataChannel, data: string | ArrayBuffer, roomKey: RoomKey | null): Promise<boolean> {
+    if (!roomKey) {
+        if (channel.readyState !== 'open') return Promise.resolve(false);
+        // send() is overloaded per type and no overload takes the union; the
+        // cast only picks one for the compiler, strings go out as text
+        channel.send(data as ArrayBuffer);
+        return Promise.resolve(true);
+    }
+
+    const sealing = sealFrame(roomKey.key, data, routeTo(peerId, channel.label));
+    const sent = (sealQueues.get(channel) ?? Promise.resolve(true))
+        .then(() => sealing)
+        .then((frame) => {
+            if (channel.readyState !== 'open') return false;
+            channel.send(frame);
+            return true;
+        })
+        .catch((error) => {
+            console.error('[WebRTC] Failed to send a sealed frame:', error);
+            return false;
+        });
+    sealQueues.set(channel, sent);
+    return sent;
+}
+
+function createChannelRoute(peerId: string, channel: RTCDataChannel, protocol: PeerProtocol, roomKey: RoomKey | null): TransferRoute {
+    return {
+        peerId,
+        relayed: false,
+        protocol,
+        channel,
+        send: async (data) => {
+            await waitForBufferedAmount(channel);
+            if (!await transmit(peerId, channel, data, roomKey)) throw new Error('Data channel closed');
+        },
+    };
+}
+
+// Only direct routes to peers that ack can pick up where they left off
+function isResumable(route: TransferRoute): boolean {
+    return !route.relayed && hasFeature(route.protocol, 'resume');
+}
+
+// Chat and control messages skip the file chunks queued on the main channel
+// once the control channel is open
+function messageChannel(pc: PeerConnection): RTCDataChannel | undefined {
+    return pc.controlChannel?.readyState === 'open' ? pc.controlChannel : pc.dataChannel;
+}
+
+// Striping needs acks to bound how far ahead the sender runs, and binary
+// frames, which are all a stripe channel carries
+function canStripe(route: TransferRoute, size: number): boolean {
+    return size >= STRIPE_MIN_SIZE
+        && isResumable(route)
+        && hasFeature(route.protocol, 'striping')
+        && chunkEncoding(route.protocol) === 'binary';
+}
+
+// Resolves once the channel has room for more; rejects if it closes first
+function waitForBufferedAmount(channel: RTCDataChannel): Promise<void> {
+    if (channel.bufferedAmount <= BUFFER_HIGH_WATER) return Promise.resolve();
+
+    return new Promise<void>((resolve, reject) => {
+        const cleanup = () => {
+            channel.removeEventListener('bufferedamountlow', onLow);
+            channel.removeEventListener('close', onClose);
+        };
+        const onLow = () => {
+            cleanup();
+            resolve();
+        };
+        const onClose = () => {
+            cleanup();
+            reject(new Error('Data channel closed'));
+        };
+
+        channel.bufferedAmountLowThreshold = BUFFER_LOW_WATER;
+        channel.addEventListener('bufferedamountlow', onLow);
+        channel.addEventListener('close', onClose);
+    });
+}
+
+// Runs wait, rejecting with message if the channel closes first. The close
+// listener is removed however the wait ends, so a long transfer doesn't pile
+// one up per chunk.
+function unlessClosed<T>(
+    channel: RTCDataChannel | null | undefined,
+    message: string,
+    wait: (resolve: (value: T) => void, reject: (error: Error) => void) => void,
+): Promise<T> {
+    let onClose = () => {};
+    return new Promise<T>((resolve, reject) => {
+        onClose = () => reject(new Error(message));
+        channel?.addEventListener('close', onClose);
+        wait(resolve, reject);
+    }).finally(() => {
+        channel?.removeEventListener('close', onClose);
+    });
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(message)), ms);
+        promise.then(
+            (value) => { clearTimeout(timer); resolve(value); },
+            (error) => { clearTimeout(timer); reject(error); },
+        );
+    });
+}
 
 export function useWebRTC() {
     const {
@@ -65,6 +321,7 @@ export function useWebRTC() {
         addMessage,
         addTransfer,
         updateTransfer,
+        sendConcurrency,
         addLog,
     } = useStore();
 
@@ -76,17 +333,42 @@ export function useWebRTC() {
         sendOffer,
         sendAnswer,
         sendCandidate,
+        sendRelayKey,
+        sendRelay,
+        sendRelayAck,
+        kickPeer,
+        banPeer,
+        setRoomLocked,
+        answerKnock,
         setMessageHandlers,
     } = useSignaling();
 
-    const fileBuffersRef = useRef<Map<string, { metadata: FileMetadata; chunks: Uint8Array[]; receivedSize: number }>>(new Map());
+    const fileBuffersRef = useRef<Map<string, IncomingFile>>(new Map());
+    const outgoingRef = useRef<Map<string, OutgoingTransfer>>(new Map());
+    const offersRef = useRef<Map<string, FileOffer>>(new Map());
+    // Peers the user chose to always accept files from
+    const autoAcceptRef = useRef<Set<string>>(new Set());
+    const reconnectAttemptsRef = useRef<Map<string, number>>(new Map());
+    // Ids of the queued sends that have started and not yet finished
+    const activeSendsRef = useRef<Set<string>>(new Set());
+    // Per channel, the last received frame still being opened
+    const openQueuesRef = useRef<WeakMap<RTCDataChannel, Promise<void>>>(new WeakMap());
+    // Peers already warned about a missing or different room key
+    const roomKeyWarningsRef = useRef<Set<string>>(new Set());
+    const verificationsRef = useRef<Map<string, Verification>>(new Map());
 
     // Ref to hold setupDataChannel to break circular dependency
     const setupDataChannelRef = useRef<((peerId: string, channel: RTCDataChannel) => void) | null>(null);
+    // Same for reconnectPeer, which needs initiateConnection
+    const reconnectPeerRef = useRef<((peerId: string) => void) | null>(null);
+    // Same for pumpQueue, which runs again as each send finishes
+    const pumpQueueRef = useRef<(() => void) | null>(null);
 
     // Create RTCPeerConnection for a peer
-    const createPeerConnection = useCallback((targetPeerId: string, targetUsername?: string): PeerConnection => {
-        const config: RTCConfiguration = { iceServers: ICE_SERVERS };
+    const createPeerConnection = useCallback(async (targetPeerId: string, targetUsername?: string): Promise<PeerConnection> => {
+        // The same certificate on every connection keeps this device's fingerprint stable
+        const certificate = await loadDeviceCertificate();
+        const config: RTCConfiguration = { iceServers: await getIceServers(), certificates: certificate ? [certificate] : undefined };
         const pc = new RTCPeerConnection(config);
 
         const peerConnection: PeerConnection = {
@@ -103,16 +385,30 @@ export function useWebRTC() {
             }
         };
 
+        // Connections that never came up are left to the relay fallback;
+        // only ones that worked before are worth rebuilding
+        let wasConnected = false;
+
         pc.onconnectionstatechange = () => {
             console.log(`[WebRTC] Connection state with ${targetPeerId}:`, pc.connectionState);
             addLog('info', `Connection with ${targetUsername || targetPeerId}: ${pc.connectionState}`);
 
             if (pc.connectionState === 'connected') {
+                wasConnected = true;
+                reconnectAttemptsRef.current.delete(targetPeerId);
                 updatePeerConnection(targetPeerId, { connected: true });
                 addLog('success', `Connected to ${targetUsername || targetPeerId}`);
+
+                // DTLS is up, so the fingerprint in the remote description is the
+                // one in use; the code to compare follows once the nonces are in
+                const remote = fingerprintFromSdp(pc.remoteDescription?.sdp);
+                if (remote) updatePeerConnection(targetPeerId, { fingerprint: remote });
             } else if (pc.connectionState === 'disconnected' || pc.connectionState === 'failed') {
                 updatePeerConnection(targetPeerId, { connected: false });
                 addLog('warn', `Disconnected from ${targetUsername || targetPeerId}`);
+                if (pc.connectionState === 'failed' && wasConnected) {
+                    reconnectPeerRef.current?.(targetPeerId);
+                }
             }
         };
 
@@ -127,31 +423,463 @@ export function useWebRTC() {
         return peerConnection;
     }, [sendCandidate, setPeerConnection, updatePeerConnection, addLog]);
 
-    // Handle incoming data channel messages
-    const handleDataChannelMessage = useCallback((senderId: string, data: string | ArrayBuffer) => {
+    const relayKeyPairRef = useRef<Promise<CryptoKeyPair> | null>(null);
+    const relaySessionsRef = useRef<Map<string, RelaySession>>(new Map());
+
+    const getRelaySession = useCallback((targetPeerId: string): RelaySession => {
+        let session = relaySessionsRef.current.get(targetPeerId);
+        if (!session) {
+            let resolveKey!: (key: CryptoKey) => void;
+            const key = new Promise<CryptoKey>((resolve) => { resolveKey = resolve; });
+            session = {
+                key,
+                resolveKey,
+                keySent: false,
+                nextSeq: 0,
+                lastReceivedSeq: -1,
+                unacked: new Set(),
+                wake: null,
+                error: null,
+                outbound: Promise.resolve(),
+                inbound: Promise.resolve(),
+            };
+            relaySessionsRef.current.set(targetPeerId, session);
+        }
+        return session;
+    }, []);
+
+    // One ECDH key pair per page; peers derive a shared AES key from it
+    const getRelayKeyPair = useCallback(() => {
+        if (!relayKeyPairRef.current) {
+            relayKeyPairRef.current = createRelayKeyPair();
+        }
+        return relayKeyPairRef.current;
+    }, []);
+
+    const offerRelayKey = useCallback(async (targetPeerId: string, session: RelaySession) => {
+        if (session.keySent) return;
+        session.keySent = true;
+        const { publicKey } = await getRelayKeyPair();
+        const exported = await exportRelayKey(publicKey);
+        const { roomKey } = useStore.getState();
+        sendRelayKey(targetPeerId, roomKey ? await sealRelayKey(roomKey.key, exported, routeTo(targetPeerId, RELAY_KEY_LABEL)) : exported);
+    }, [getRelayKeyPair, sendRelayKey]);
+
+    // Stop every pending relayed send to a peer (or all peers)
+    const failRelay = useCallback((error: string, targetPeerId?: string) => {
+        relaySessionsRef.current.forEach((session, id) => {
+            if (targetPeerId && id !== targetPeerId) return;
+            session.error = error;
+            session.wake?.();
+            session.wake = null;
+        });
+    }, []);
+
+    // Encrypt and send one data channel message through the server, waiting
+    // for acks whenever RELAY_WINDOW frames are already in flight
+    const sendRelayed = useCallback((targetPeerId: string, message: string): Promise<void> => {
+        const session = getRelaySession(targetPeerId);
+
+        const task = session.outbound.then(async () => {
+            if (session.error) throw new Error(session.error);
+
+            await offerRelayKey(targetPeerId, session);
+            const key = await withTimeout(session.key, RELAY_KEY_TIMEOUT_MS, 'Peer did not answer the relay key exchange');
+
+            while (session.unacked.size >= RELAY_WINDOW && !session.error) {
+                await withTimeout(
+                    new Promise<void>((resolve) => { session.wake = resolve; }),
+                    RELAY_ACK_TIMEOUT_MS,
+                    'Relay stalled: the peer stopped acknowledging data',
+                );
+            }
+            if (session.error) throw new Error(session.error);
+
+            const frame = await encryptFrame(key, session.nextSeq++, message, { senderId: useStore.getState().peerId || '', receiverId: targetPeerId });
+            if (!sendRelay(targetPeerId, frame)) {
+                throw new Error('Not connected to the signaling server');
+            }
+            session.unacked.add(frame.seq);
+        });
+
+        session.outbound = task.catch(() => undefined);
+        return task;
+    }, [getRelaySession, offerRelayKey, sendRelay]);
+
+    // Send a JSON control message on a peer's control channel, or its data
+    // channel where there isn't one, if it's open
+    const sendControl = useCallback((targetPeerId: string, message: DataChannelMessage): boolean => {
+        const { peerConnections, roomKey } = useStore.getState();
+        const pc = peerConnections.get(targetPeerId);
+        const channel = pc && messageChannel(pc);
+        if (channel?.readyState !== 'open') return false;
+        transmit(targetPeerId, channel, JSON.stringify(message), roomKey);
+        return true;
+    }, []);
+
+    // Our nonce goes out once our commitment has and the peer's has arrived
+    const revealSasNonce = useCallback((targetPeerId: string, verification: Verification) => {
+        if (!verification.committed || verification.peerCommitment === null || verification.revealed) return;
+        const reveal: SasReveal = { type: 'sas-reveal', nonce: verification.nonce };
+        verification.revealed = sendControl(targetPeerId, reveal);
+    }, [sendControl]);
+
+    // Commit to a nonce for the current connection to a peer, once
+    const startVerification = useCallback((targetPeerId: string): Verification | undefined => {
+        const pc = useStore.getState().peerConnections.get(targetPeerId);
+        if (!pc) return undefined;
+        const existing = verificationsRef.current.get(targetPeerId);
+        if (existing?.connection === pc.connection) return existing;
+
+        const verification: Verification = {
+            connection: pc.connection,
+            nonce: createSasNonce(),
+            committed: false,
+            peerCommitment: null,
+            revealed: false,
+            finished: false,
+        };
+        verificationsRef.current.set(targetPeerId, verification);
+
+        sasCommitment(verification.nonce).then((commitment) => {
+            if (verificationsRef.current.get(targetPeerId) !== verification) return;
+            const commit: SasCommit = { type: 'sas-commit', commitment };
+            verification.committed = sendControl(targetPeerId, commit);
+            revealSasNonce(targetPeerId, verification);
+        }, (error) => console.error(`[Identity] Failed to commit to a nonce for ${targetPeerId}:`, error));
+        return verification;
+    }, [sendControl, revealSasNonce]);
+
+    // The peer revealed its nonce: check it against its commitment and show the code
+    const finishVerification = useCallback((senderId: string, nonce: string) => {
+        const verification = verificationsRef.current.get(senderId);
+        // Without its commitment first, the peer could have picked its nonce to suit ours
+        if (!verification || verification.peerCommitment === null || verification.finished) return;
+        verification.finished = true;
+
+        const pc = verification.connection;
+        const local = fingerprintFromSdp(pc.localDescription?.sdp);
+        const remote = fingerprintFromSdp(pc.remoteDescription?.sdp);
+        if (!local || !remote) return;
+
+        verifySasReveal(nonce, verification.peerCommitment).then(async (valid) => {
+            if (!valid) {
+                console.error(`[Identity] ${senderId} revealed a nonce that doesn't match its commitment`);
+                addLog('error', `Can't verify ${senderId}: its verification code was tampered with`);
+                return;
+            }
+
+            const sas = await shortAuthString({ fingerprint: local, nonce: verification.nonce }, { fingerprint: remote, nonce });
+            // After a reconnect these belong to the old connection
+            if (useStore.getState().peerConnections.get(senderId)?.connection !== pc) return;
+            updatePeerConnection(senderId, { fingerprint: remote, sas });
+        }).catch((error) => console.error(`[Identity] Failed to derive verification code for ${senderId}:`, error));
+    }, [updatePeerConnection, addLog]);
+
+    const sendFileAnswer = useCallback((offer: FileOffer, accepted: boolean) => {
+        const answer: FileAnswer = { type: 'file-answer', fileId: offer.metadata.id, accepted };
+        if (!offer.relayed) {
+            sendControl(offer.senderId, answer);
+            return;
+        }
+        sendRelayed(offer.senderId, JSON.stringify(answer)).catch((error) => {
+            console.error(`[Relay] Failed to answer file offer from ${offer.senderId}:`, error);
+        });
+    }, [sendControl, sendRelayed]);
+
+    // Pause, resume or cancel a file with a peer, if the peer understands it
+    const sendTransferControl = useCallback((targetPeerId: string, type: TransferControl['type'], fileId: string, relayed: boolean): boolean => {
+        const { peerConnections, peers } = useStore.getState();
+        const announced = peers.find(p => p.id === targetPeerId);
+        const protocol = relayed
+            ? negotiateProtocol(announced?.version, announced?.capabilities)
+            : peerConnections.get(targetPeerId)?.protocol;
+        if (!hasFeature(protocol, 'transfer-control')) return false;
+
+        const message: TransferControl = { type, fileId };
+        if (!relayed) return sendControl(targetPeerId, message);
+        sendRelayed(targetPeerId, JSON.stringify(message)).catch((error) => {
+            console.error(`[Relay] Failed to send ${type} for ${fileId} to ${targetPeerId}:`, error);
+        });
+        return true;
+    }, [sendControl, sendRelayed]);
+
+    // Start writing an accepted file to its sink; chunks that arrive before
+    // the sink is open wait for it
+    const startReceive = useCallback((senderId: string, metadata: FileMetadata, sink: Promise<FileSink>) => {
+        addLog('info', `Receiving file: ${metadata.filename} (${(metadata.size / 1024).toFixed(1)} KB) from ${metadata.senderName}`);
+        sink.then((opened) => {
+            if (opened.kind !== 'memory') addLog('info', `Writing ${metadata.filename} straight to disk (${opened.kind})`);
+        }, () => undefined);
+
+        fileBuffersRef.current.set(metadata.id, {
+            metadata,
+            senderId,
+            sink,
+            writing: sink.then(() => undefined),
+            received: 0,
+            receivedSize: 0,
+            expiry: null,
+            paused: false,
+            meter: new ThroughputMeter(),
+            reportedAt: 0,
+            ahead: new Map(),
+            hasher: new BlockHasher(),
+            done: null,
+        });
+    }, [addLog]);
+
+    // Drop a file that won't be finished, along with anything written so far
+    const discardReceive = useCallback((fileId: string) => {
+        const buffer = fileBuffersRef.current.get(fileId);
+        if (!buffer) return;
+
+        if (buffer.expiry) clearTimeout(buffer.expiry);
+        fileBuffersRef.current.delete(fileId);
+        buffer.sink.then(sink => sink.abort()).catch(() => undefined);
+    }, []);
+
+    // Acks go only to peers that asked for them, and only directly
+    const sendAck = useCallback((targetPeerId: string, fileId: string, index: number) => {
+        const protocol = useStore.getState().peerConnections.get(targetPeerId)?.protocol;
+        if (!hasFeature(protocol, 'resume')) return;
+        const ack: ChunkAck = { type: 'ack', fileId, index };
+        sendControl(targetPeerId, ack);
+    }, [sendControl]);
+
+    // Flush and close an incoming file's sink, then check what arrived
+    // against the sender's hash
+    const finishReceive = useCallback(async (fileId: string, buffer: IncomingFile, blockHash?: string) => {
+        const { filename } = buffer.metadata;
+
+        let sink: FileSink;
+        let blob: Blob | undefined;
         try {
-            const message: DataChannelMessage = JSON.parse(
-                typeof data === 'string' ? data : new TextDecoder().decode(data)
-            );
+            sink = await buffer.sink;
+            await buffer.writing;
+            blob = await sink.close();
+        } catch (error) {
+            console.error(`[WebRTC] Failed to save ${fileId}:`, error);
+            addLog('error', `Could not save ${filename}`);
+            buffer.sink.then(opened => opened.abort()).catch(() => undefined);
+            updateTransfer(fileId, { status: 'failed', error: `Could not save the file: ${(error as Error)?.message || error}` });
+            return;
+        }
+
+        // A picked file or a streamed download is already where the user
+        // wants it; only files the page holds get a download button
+        const saved = sink.kind === 'file' || sink.kind === 'download';
+        const result = { status: 'completed' as const, progress: 100, blob: saved ? undefined : blob, saved };
+
+        // Older senders' hashes can't be checked this way; their files complete unverified
+        if (!isSha256Hex(blockHash)) {
+            addLog('success', `File received: ${filename}`);
+            updateTransfer(fileId, result);
+            return;
+        }
+
+        try {
+            const actual = await buffer.hasher.digest();
+            if (actual !== blockHash) {
+                console.error(`[WebRTC] SHA-256 mismatch for ${fileId}: expected ${blockHash}, got ${actual}`);
+                addLog('error', `File is corrupt: ${filename}`);
+                updateTransfer(fileId, { status: 'failed', error: 'File is corrupt: its SHA-256 does not match what was sent' });
+                return;
+            }
+            addLog('success', `File received and verified: ${filename}`);
+            updateTransfer(fileId, { ...result, verified: true });
+        } catch (error) {
+            console.warn(`[WebRTC] Could not verify ${fileId}:`, error);
+            addLog('warn', `File received, but could not be verified: ${filename}`);
+            updateTransfer(fileId, result);
+        }
+    }, [updateTransfer, addLog]);
+
+    // The last chunk is in: tell the sender and save the file
+    const completeReceive = useCallback((fileId: string, buffer: IncomingFile, blockHash?: string) => {
+        // The sender counts the file as delivered once this arrives
+        sendAck(buffer.senderId, fileId, buffer.received - 1);
+        fileBuffersRef.current.delete(fileId);
+        // Update transfer status with blob (no auto-download) once it's saved
+        finishReceive(fileId, buffer, blockHash);
+    }, [sendAck, finishReceive]);
+
+    // Append a chunk, however it was encoded on the wire
+    const receiveChunk = useCallback((senderId: string, fileId: string, index: number, bytes: Uint8Array) => {
+        const buffer = fileBuffersRef.current.get(fileId);
+        if (!buffer || buffer.senderId !== senderId) return;
+
+        // Chunks on one channel arrive in order, striped ones may overtake
+        // each other, and a resumed sender may repeat a few
+        if (index < buffer.received || buffer.ahead.has(index)) return;
+        if (index > buffer.received) {
+            if (index - buffer.received > STRIPE_WINDOW) {
+                console.error(`[WebRTC] Chunk ${index} of ${fileId} is too far ahead of chunk ${buffer.received}`);
+                addLog('error', `Missing data in ${buffer.metadata.filename}`);
+                return;
+            }
+            buffer.ahead.set(index, bytes);
+            return;
+        }
+
+        // Write this chunk and any that were waiting on it
+        const before = buffer.received;
+        let next: Uint8Array | undefined = bytes;
+        while (next) {
+            const chunk = next;
+            buffer.writing = buffer.writing.then(async () => (await buffer.sink).write(chunk));
+            buffer.hasher.update(chunk);
+            buffer.received++;
+            buffer.receivedSize += chunk.length;
+            next = buffer.ahead.get(buffer.received);
+            buffer.ahead.delete(buffer.received);
+        }
+
+        if (Math.floor(buffer.received / ACK_INTERVAL) > Math.floor(before / ACK_INTERVAL)) {
+            sendAck(senderId, fileId, buffer.received - 1);
+        }
+
+        // Progress and speed go to the feed a couple of times a second
+        const now = Date.now();
+        const { size } = buffer.metadata;
+        if (now - buffer.reportedAt >= PROGRESS_INTERVAL_MS || buffer.receivedSize >= size) {
+            buffer.reportedAt = now;
+            const bytesPerSecond = buffer.meter.update(buffer.receivedSize, now);
+            updateTransfer(fileId, {
+                progress: progressPercent(buffer.receivedSize, size),
+                bytesPerSecond,
+                eta: etaSeconds(size - buffer.receivedSize, bytesPerSecond),
+            });
+        }
+
+        if (buffer.done && buffer.received >= buffer.done.chunks) {
+            completeReceive(fileId, buffer, buffer.done.blockHash);
+        }
+    }, [sendAck, completeReceive, updateTransfer, addLog]);
+
+    // Offer to continue every interrupted send to a peer that just reconnected
+    const offerResumes = useCallback((targetPeerId: string) => {
+        outgoingRef.current.forEach((outgoing) => {
+            if (outgoing.peerId !== targetPeerId || !outgoing.waiting) return;
+            const offer: ResumeOffer = { type: 'resume-offer', fileId: outgoing.fileId, index: outgoing.acked + 1 };
+            sendControl(targetPeerId, offer);
+        });
+    }, [sendControl]);
+
+    // The connection to a peer dropped: hold on to what it sent us, in case it comes back
+    const interruptReceives = useCallback((senderId: string) => {
+        const protocol = useStore.getState().peerConnections.get(senderId)?.protocol;
+        const { transfers } = useStore.getState();
+
+        fileBuffersRef.current.forEach((buffer, fileId) => {
+            if (buffer.senderId !== senderId || buffer.expiry) return;
+            const status = transfers.find(t => t.id === fileId)?.status;
+            if (status !== 'transferring' && status !== 'paused') return;
+
+            if (!hasFeature(protocol, 'resume')) {
+                discardReceive(fileId);
+                updateTransfer(fileId, { status: 'failed', error: 'Connection lost' });
+                return;
+            }
+
+            updateTransfer(fileId, { status: 'interrupted' });
+            buffer.expiry = setTimeout(() => {
+                discardReceive(fileId);
+                updateTransfer(fileId, { status: 'failed', error: 'Peer did not reconnect in time' });
+            }, RESUME_TIMEOUT_MS);
+        });
+    }, [discardReceive, updateTransfer]);
+
+    // Give up on every interrupted transfer with a peer (or all peers)
+    const abandonTransfers = useCallback((error: string, targetPeerId?: string) => {
+        outgoingRef.current.forEach((outgoing) => {
+            if (targetPeerId && outgoing.peerId !== targetPeerId) return;
+            outgoing.answer?.reject(new Error(error));
+            outgoing.waiting?.reject(new Error(error));
+            outgoing.unpause?.reject(new Error(error));
+        });
+
+        offersRef.current.forEach((offer, fileId) => {
+            if (targetPeerId && offer.senderId !== targetPeerId) return;
+            offersRef.current.delete(fileId);
+            updateTransfer(fileId, { status: 'failed', error });
+        });
+
+        fileBuffersRef.current.forEach((buffer, fileId) => {
+            if (targetPeerId && buffer.senderId !== targetPeerId) return;
+            discardReceive(fileId);
+            updateTransfer(fileId, { status: 'failed', error });
+        });
+    }, [discardReceive, updateTransfer]);
+
+    // Handle incoming data channel messages (and relayed ones, once decrypted).
+    // Strings are JSON control messages; binary data is always a chunk frame.
+    const handleDataChannelMessage = useCallback((senderId: string, data: string | ArrayBuffer, relayed = false) => {
+        if (typeof data !== 'string') {
+            const chunk = decodeBinaryChunk(data);
+            if (!chunk) {
+                console.error(`[WebRTC] Unreadable binary frame from ${senderId}`);
+                addLog('error', `Unreadable binary frame from ${senderId}`);
+                return;
+            }
+            receiveChunk(senderId, chunk.fileId, chunk.index, chunk.bytes);
+            return;
+        }
+
+        try {
+            const message: DataChannelMessage = JSON.parse(data);
 
             switch (message.type) {
+                // Agree on the features both sides support; older peers never send this
+                case 'hello': {
+                    const { version, capabilities } = message as Hello;
+                    const protocol = negotiateProtocol(version, capabilities);
+                    updatePeerConnection(senderId, { protocol });
+                    addLog('info', `Protocol with ${senderId}: v${protocol.version}${protocol.features.length ? ` (${protocol.features.join(', ')})` : ''}`);
+                    if (hasFeature(protocol, 'resume')) offerResumes(senderId);
+                    if (hasFeature(protocol, 'verification')) startVerification(senderId);
+
+                    // Only the peer with the lower id opens the control channel, so there is one
+                    const pc = useStore.getState().peerConnections.get(senderId);
+                    const ownId = useStore.getState().peerId;
+                    if (hasFeature(protocol, 'control-channel') && pc && !pc.controlChannel && ownId && ownId < senderId) {
+                        setupDataChannelRef.current?.(senderId, pc.connection.createDataChannel(CONTROL_CHANNEL_LABEL, CONTROL_CHANNEL_OPTIONS));
+                    }
+                    break;
+                }
+
                 case 'chat': {
                     addMessage(message as ChatMessage);
                     break;
                 }
 
+                // Relayed messages don't cross the DTLS connection being verified
+                case 'sas-commit': {
+                    const { commitment } = message as SasCommit;
+                    const verification = !relayed && typeof commitment === 'string' ? startVerification(senderId) : undefined;
+                    // A commitment can't be swapped once made
+                    if (!verification || verification.peerCommitment !== null) return;
+                    verification.peerCommitment = commitment;
+                    revealSasNonce(senderId, verification);
+                    break;
+                }
+
+                case 'sas-reveal': {
+                    const { nonce } = message as SasReveal;
+                    if (!relayed && typeof nonce === 'string') finishVerification(senderId, nonce);
+                    break;
+                }
+
                 case 'file-start': {
                     const { metadata } = message as FileStart;
-                    addLog('info', `Receiving file: ${metadata.filename} (${(metadata.size / 1024).toFixed(1)} KB) from ${metadata.senderName}`);
-                    // Initialize file buffer
-                    fileBuffersRef.current.set(metadata.id, {
-                        metadata,
-                        chunks: [],
-                        receivedSize: 0,
-                    });
+                    if (fileBuffersRef.current.has(metadata.id) || offersRef.current.has(metadata.id)) return;
+                    if (metadata.entries !== undefined && !isValidFolder(metadata)) {
+                        console.error(`[WebRTC] Ignoring folder ${metadata.id} from ${senderId} with an invalid listing`);
+                        addLog('error', `${metadata.senderName || senderId} sent a folder that can't be saved safely`);
+                        return;
+                    }
 
-                    // Add to transfers
-                    addTransfer({
+                    const transfer: FileTransfer = {
                         id: metadata.id,
                         filename: metadata.filename,
                         size: metadata.size,
@@ -161,48 +889,150 @@ export function useWebRTC() {
                         direction: 'receive',
                         peerId: senderId,
                         peerName: metadata.senderName,
-                        chunks: [],
                         timestamp: Date.now(),
-                    });
+                        relayed,
+                        ...(metadata.entries && { folder: { files: metadata.entries.length } }),
+                    };
+
+                    const { peerConnections, peers } = useStore.getState();
+                    const announced = peers.find(p => p.id === senderId);
+                    const protocol = relayed
+                        ? negotiateProtocol(announced?.version, announced?.capabilities)
+                        : peerConnections.get(senderId)?.protocol;
+                    const offer: FileOffer = { metadata, senderId, relayed };
+
+                    // Every file needs the user's say-so, given now or by
+                    // always accepting from this peer. Nothing is buffered
+                    // until then, so chunks sent early are dropped.
+                    if (!autoAcceptRef.current.has(senderId)) {
+                        // Older senders stream without waiting for an answer, so there's no asking them
+                        if (!hasFeature(protocol, 'file-offer')) {
+                            addTransfer({ ...transfer, status: 'declined', error: 'The sender\'s app is too old to ask before sending' });
+                            addLog('error', `Refused ${metadata.filename} from ${metadata.senderName || senderId}, whose app doesn't ask before sending`);
+                            break;
+                        }
+
+                        offersRef.current.set(metadata.id, offer);
+                        addTransfer({ ...transfer, status: 'pending' });
+                        addLog('info', `${metadata.senderName || senderId} wants to send you ${metadata.filename} (${(metadata.size / 1024).toFixed(1)} KB)`);
+                        break;
+                    }
+
+                    // No click to open a save dialog from, so large files go to OPFS or a download
+                    const open = metadata.entries ? openFolderSink : openSink;
+                    startReceive(senderId, metadata, open(metadata, { interactive: false }));
+                    addTransfer(transfer);
+                    if (hasFeature(protocol, 'file-offer')) sendFileAnswer(offer, true);
                     break;
                 }
 
+                case 'file-answer': {
+                    const { fileId, accepted } = message as FileAnswer;
+                    outgoingRef.current.get(transferKey(fileId, senderId))?.answer?.resolve(accepted === true);
+                    break;
+                }
+
+                // Peers without binary-chunks send base64 in JSON
                 case 'chunk': {
-                    const { fileId, data: chunkData } = message as FileChunk;
+                    const chunk = message as FileChunk;
+                    receiveChunk(senderId, chunk.fileId, chunk.index, decodeChunk(chunk));
+                    break;
+                }
+
+                case 'done': {
+                    const { fileId, blockHash, chunks } = message as FileComplete;
                     const buffer = fileBuffersRef.current.get(fileId);
-                    if (!buffer) return;
+                    if (!buffer || buffer.senderId !== senderId) return;
 
-                    // Decode base64 chunk
-                    const binaryString = atob(chunkData);
-                    const bytes = new Uint8Array(binaryString.length);
-                    for (let i = 0; i < binaryString.length; i++) {
-                        bytes[i] = binaryString.charCodeAt(i);
+                    // Finished by receiveChunk once the stragglers are in
+                    if (typeof chunks === 'number' && buffer.received < chunks) {
+                        buffer.done = { blockHash, chunks };
+                        return;
                     }
+                    completeReceive(fileId, buffer, blockHash);
+                    break;
+                }
 
-                    buffer.chunks.push(bytes);
-                    buffer.receivedSize += bytes.length;
+                case 'ack': {
+                    const { fileId, index } = message as ChunkAck;
+                    const outgoing = outgoingRef.current.get(transferKey(fileId, senderId));
+                    if (!outgoing) return;
 
-                    // Update progress
-                    const progress = Math.round((buffer.receivedSize / buffer.metadata.size) * 100);
-                    updateTransfer(fileId, { progress });
+                    outgoing.acked = Math.max(outgoing.acked, index);
+                    outgoing.wake?.();
+                    outgoing.wake = null;
                     break;
                 }
 
-                case 'done': {
-                    const { fileId } = message as FileComplete;
+                // The receiver has the final say on the offset, since it may
+                // hold more than it had acknowledged
+                case 'resume-offer': {
+                    const { fileId } = message as ResumeOffer;
                     const buffer = fileBuffersRef.current.get(fileId);
-                    if (!buffer) return;
+                    const resumable = !!buffer && buffer.senderId === senderId;
+
+                    const answer: ResumeAnswer = { type: 'resume-answer', fileId, index: resumable ? buffer.received : null };
+                    sendControl(senderId, answer);
+
+                    if (resumable) {
+                        if (buffer.expiry) clearTimeout(buffer.expiry);
+                        buffer.expiry = null;
+                        updateTransfer(fileId, { status: buffer.paused ? 'paused' : 'transferring' });
+                        addLog('info', `Resuming ${buffer.metadata.filename} from ${progressPercent(buffer.receivedSize, buffer.metadata.size)}%`);
+                    }
+                    break;
+                }
 
-                    addLog('success', `File received: ${buffer.metadata.filename}`);
+                case 'resume-answer': {
+                    const { fileId, index } = message as ResumeAnswer;
+                    const waiting = outgoingRef.current.get(transferKey(fileId, senderId))?.waiting;
+                    if (!waiting) return;
 
-                    // Combine chunks into blob
-                    const blob = new Blob(buffer.chunks as BlobPart[], { type: buffer.metadata.mime });
+                    if (index === null) {
+                        waiting.reject(new Error('Peer could not resume the transfer'));
+                    } else {
+                        waiting.resolve(index);
+                    }
+                    break;
+                }
 
-                    // Update transfer status with blob (no auto-download)
-                    updateTransfer(fileId, { status: 'completed', progress: 100, blob });
+                // Sent by whichever side acted, so this peer may be sending
+                // the file to us or receiving it from us
+                case 'pause':
+                case 'resume':
+                case 'cancel': {
+                    const { type, fileId } = message as TransferControl;
+                    const outgoing = outgoingRef.current.get(transferKey(fileId, senderId));
+                    if (outgoing) {
+                        if (type === 'cancel') {
+                            const name = useStore.getState().transfers.find(t => t.id === fileId)?.filename;
+                            addLog('info', `${senderId} cancelled ${name || fileId}`);
+                            cancelOutgoing(outgoing);
+                        } else {
+                            outgoing.paused = type === 'pause';
+                            if (!outgoing.paused) outgoing.unpause?.resolve();
+                        }
+                        return;
+                    }
 
-                    // Cleanup
-                    fileBuffersRef.current.delete(fileId);
+                    const buffer = fileBuffersRef.current.get(fileId);
+                    const offer = offersRef.current.get(fileId);
+                    if (type === 'cancel' && offer?.senderId === senderId) {
+                        offersRef.current.delete(fileId);
+                        updateTransfer(fileId, { status: 'cancelled' });
+                        addLog('info', `${offer.metadata.filename} was cancelled by the sender`);
+                        return;
+                    }
+                    if (!buffer || buffer.senderId !== senderId) return;
+
+                    if (type === 'cancel') {
+                        discardReceive(fileId);
+                        updateTransfer(fileId, { status: 'cancelled' });
+                        addLog('info', `${buffer.metadata.filename} was cancelled by the sender`);
+                    } else {
+                        buffer.paused = type === 'pause';
+                        if (!buffer.expiry) updateTransfer(fileId, { status: buffer.paused ? 'paused' : 'transferring' });
+                    }
                     break;
                 }
             }
@@ -210,22 +1040,94 @@ export function useWebRTC() {
             console.error('[WebRTC] Failed to parse data channel message:', error);
             addLog('error', 'Failed to parse data channel message');
         }
-    }, [addMessage, addTransfer, updateTransfer, addLog]);
+    }, [addMessage, addTransfer, receiveChunk, startReceive, discardReceive, completeReceive, sendControl, sendFileAnswer, offerResumes, startVerification, revealSasNonce, finishVerification, updateTransfer, updatePeerConnection, addLog]);
+
+    // Tell the user once per peer when one side has the room key and the other doesn't
+    const warnRoomKeyMismatch = useCallback((senderId: string, hasKey: boolean) => {
+        if (roomKeyWarningsRef.current.has(senderId)) return;
+        roomKeyWarningsRef.current.add(senderId);
+
+        const name = useStore.getState().peerConnections.get(senderId)?.username || senderId;
+        console.warn(`[WebRTC] Room key mismatch with ${senderId}`);
+        addLog('error', hasKey
+            ? `${name} doesn't have this room's key, so nothing they send can be read`
+            : `${name} encrypts this room with a key from its link; open the full link to read what they send`);
+    }, [addLog]);
+
+    // Open a received frame and pass it on. Frames are opened in parallel but
+    // delivered in the order the channel received them. With a room key,
+    // anything not sealed with it for this route is dropped, and so is any
+    // frame seen before.
+    const receiveFrame = useCallback((senderId: string, channel: RTCDataChannel, data: string | ArrayBuffer, deliver: (data: string | ArrayBuffer) => void) => {
+        const { roomKey } = useStore.getState();
+        if (!roomKey) {
+            if (isSealedFrame(data)) warnRoomKeyMismatch(senderId, false);
+            else deliver(data);
+            return;
+        }
+        if (typeof data === 'string') {
+            warnRoomKeyMismatch(senderId, true);
+            return;
+        }
+
+        const opening = openFrame(roomKey.key, data, routeFrom(senderId, channel.label));
+        const opened = (openQueuesRef.current.get(channel) ?? Promise.resolve())
+            .then(() => opening)
+            .then((opened) => {
+                if (opened !== null) deliver(opened);
+                else console.warn(`[WebRTC] Dropped a replayed frame from ${senderId}`);
+            }, () => warnRoomKeyMismatch(senderId, true))
+            .catch((error) => console.error(`[WebRTC] Failed to handle a frame from ${senderId}:`, error));
+        openQueuesRef.current.set(channel, opened);
+    }, [warnRoomKeyMismatch]);
 
     // Setup data channel event handlers
     const setupDataChannel = useCallback((targetPeerId: string, channel: RTCDataChannel) => {
         channel.binaryType = 'arraybuffer';
 
+        // A sender's extra channels for a striped file carry chunk frames only
+        if (isStripeChannel(channel)) {
+            channel.onmessage = (event) => receiveFrame(targetPeerId, channel, event.data, (data) => {
+                if (typeof data !== 'string') handleDataChannelMessage(targetPeerId, data);
+            });
+            return;
+        }
+
+        // Chat and control messages only; the hello stays on the main channel
+        if (isControlChannel(channel)) {
+            const track = () => {
+                console.log(`[WebRTC] Control channel open with ${targetPeerId}`);
+                updatePeerConnection(targetPeerId, { controlChannel: channel });
+            };
+            if (channel.readyState === 'open') track();
+            else channel.onopen = track;
+            channel.onmessage = (event) => receiveFrame(targetPeerId, channel, event.data, (data) => {
+                if (typeof data === 'string') handleDataChannelMessage(targetPeerId, data);
+            });
+            return;
+        }
+
         channel.onopen = () => {
             console.log(`[WebRTC] Data channel open with ${targetPeerId}`);
             addLog('success', `Data channel open with ${targetPeerId}`);
             updatePeerConnection(targetPeerId, { dataChannel: channel, connected: true });
+
+            const hello: Hello = { type: 'hello', version: PROTOCOL_VERSION, capabilities: CAPABILITIES };
+            transmit(targetPeerId, channel, JSON.stringify(hello), useStore.getState().roomKey);
         };
 
         channel.onclose = () => {
             console.log(`[WebRTC] Data channel closed with ${targetPeerId}`);
             addLog('warn', `Data channel closed with ${targetPeerId}`);
-            updatePeerConnection(targetPeerId, { connected: false });
+
+            // A peer that left is cleaned up by handlePeerLeft instead
+            const current = useStore.getState().peerConnections.get(targetPeerId);
+            if (!current) return;
+            interruptReceives(targetPeerId);
+            // After a reconnect this channel belongs to the old connection
+            if (current.dataChannel === channel) {
+                updatePeerConnection(targetPeerId, { connected: false });
+            }
         };
 
         channel.onerror = (error) => {
@@ -233,10 +1135,10 @@ export function useWebRTC() {
             addLog('error', `Data channel error with ${targetPeerId}`);
         };
 
-        channel.onmessage = (event) => {
-            handleDataChannelMessage(targetPeerId, event.data);
-        };
-    }, [updatePeerConnection, handleDataChannelMessage, addLog]);
+        channel.onmessage = (event) => receiveFrame(targetPeerId, channel, event.data, (data) => {
+            handleDataChannelMessage(targetPeerId, data);
+        });
+    }, [updatePeerConnection, handleDataChannelMessage, receiveFrame, interruptReceives, addLog]);
 
     // Keep ref updated with latest setupDataChannel
     useEffect(() => {
@@ -260,7 +1162,7 @@ export function useWebRTC() {
         console.log(`[WebRTC] Initiating connection to ${targetPeerId}`);
         addLog('info', `Initiating connection to ${targetUsername || targetPeerId}`);
 
-        const peerConnection = createPeerConnection(targetPeerId, targetUsername);
+        const peerConnection = await createPeerConnection(targetPeerId, targetUsername);
         const { connection: pc } = peerConnection;
 
         // Create data channel (as initiator)
@@ -294,6 +1196,31 @@ export function useWebRTC() {
         }
     }, [addLog]);
 
+    // Rebuild a connection that dropped while the peer is still in the room.
+    // Only the peer with the lower id offers, so the two never collide.
+    const reconnectPeer = useCallback((targetPeerId: string) => {
+        const { peerId: ownId, peers } = useStore.getState();
+        const peer = peers.find(p => p.id === targetPeerId);
+        if (!peer || !ownId || ownId > targetPeerId) return;
+
+        const attempts = reconnectAttemptsRef.current.get(targetPeerId) ?? 0;
+        if (attempts >= MAX_RECONNECT_ATTEMPTS) {
+            addLog('error', `Giving up reconnecting to ${peer.username || targetPeerId}`);
+            return;
+        }
+        reconnectAttemptsRef.current.set(targetPeerId, attempts + 1);
+
+        addLog('info', `Reconnecting to ${peer.username || targetPeerId}`);
+        interruptReceives(targetPeerId);
+        removePeerConnection(targetPeerId);
+        candidateQueuesRef.current.delete(targetPeerId);
+        initiateConnection(targetPeerId, peer.username);
+    }, [initiateConnection, interruptReceives, removePeerConnection, addLog]);
+
+    useEffect(() => {
+        reconnectPeerRef.current = reconnectPeer;
+    }, [reconnectPeer]);
+
     // Handle incoming offer
     const handleOffer = useCallback(async (message: OfferMessage) => {
         const { senderId, payload: offer } = message;
@@ -304,8 +1231,17 @@ export function useWebRTC() {
         const currentPeerConnections = useStore.getState().peerConnections;
         let pc = currentPeerConnections.get(senderId)?.connection;
 
+        // Connections are never renegotiated, so an offer for one that was
+        // already set up means the peer is reconnecting from scratch
+        if (pc?.remoteDescription) {
+            addLog('info', `${senderId} is reconnecting`);
+            interruptReceives(senderId);
+            removePeerConnection(senderId);
+            pc = undefined;
+        }
+
         if (!pc) {
-            const peerConnection = createPeerConnection(senderId);
+            const peerConnection = await createPeerConnection(senderId);
             pc = peerConnection.connection;
         }
 
@@ -336,7 +1272,7 @@ export function useWebRTC() {
         await pc.setLocalDescription(answer);
 
         sendAnswer(senderId, answer);
-    }, [createPeerConnection, sendAnswer, addLog, processCandidateQueue]);
+    }, [createPeerConnection, removePeerConnection, interruptReceives, sendAnswer, addLog, processCandidateQueue]);
 
     // Handle incoming answer
     const handleAnswer = useCallback(async (message: AnswerMessage) => {
@@ -373,21 +1309,14 @@ export function useWebRTC() {
         const currentPeerConnections = useStore.getState().peerConnections;
         const pc = currentPeerConnections.get(senderId)?.connection;
 
-        if (!pc) {
-            console.error(`[WebRTC] No peer connection for ${senderId} to add candidate`);
-            // We could create one, but usually candidate comes after offer.
-            // If we don't have a PC, we might want to queue it? 
-            // But we need a PC to know if we can add it.
-            // For now, assume PC exists (created by offer/initiate).
-            return;
-        }
-
-        if (pc.signalingState === 'closed') {
+        if (pc?.signalingState === 'closed') {
             console.warn(`[WebRTC] Ignoring candidate for closed connection ${senderId}`);
             return;
         }
 
-        if (!pc.remoteDescription) {
+        // The connection may still be waiting on ICE servers; the offer
+        // handler drains the queue once the remote description is set
+        if (!pc || !pc.remoteDescription) {
             console.log(`[WebRTC] Queuing candidate for ${senderId} (no remote description)`);
             const queue = candidateQueuesRef.current.get(senderId) || [];
             queue.push(candidate);
@@ -401,6 +1330,68 @@ export function useWebRTC() {
         }
     }, []);
 
+    const handleRelayKey = useCallback(async (message: RelayKeyMessage) => {
+        const { senderId, payload } = message;
+        const session = getRelaySession(senderId);
+
+        try {
+            // In an encrypted room, a key the server swapped in won't open
+            let publicKey: string | null = payload.publicKey;
+            const { roomKey } = useStore.getState();
+            if (roomKey) publicKey = await openRelayKey(roomKey.key, payload.publicKey, routeFrom(senderId, RELAY_KEY_LABEL));
+            if (publicKey === null) {
+                console.warn(`[Relay] Dropped a replayed relay key from ${senderId}`);
+                return;
+            }
+
+            const { privateKey } = await getRelayKeyPair();
+            const key = await deriveRelayKey(privateKey, publicKey);
+            session.resolveKey(key);
+            session.key = Promise.resolve(key); // A peer may re-key
+            await offerRelayKey(senderId, session);
+            addLog('info', `Relay key exchanged with ${senderId}`);
+        } catch (error) {
+            console.error(`[Relay] Invalid key from ${senderId}:`, error);
+            addLog('error', `Invalid relay key from ${senderId}`);
+        }
+    }, [getRelaySession, getRelayKeyPair, offerRelayKey, addLog]);
+
+    const handleRelay = useCallback((message: RelayMessage) => {
+        const { senderId, payload: frame } = message;
+        const session = getRelaySession(senderId);
+
+        session.inbound = session.inbound.then(async () => {
+            // Sequence numbers only grow; anything else is a replay
+            if (frame.seq <= session.lastReceivedSeq) {
+                console.warn(`[Relay] Dropping out-of-order frame ${frame.seq} from ${senderId}`);
+                return;
+            }
+
+            const key = await withTimeout(session.key, RELAY_KEY_TIMEOUT_MS, 'No relay key');
+            const plaintext = await decryptFrame(key, frame, { senderId, receiverId: useStore.getState().peerId || '' });
+            session.lastReceivedSeq = frame.seq;
+
+            handleDataChannelMessage(senderId, plaintext, true);
+            sendRelayAck(senderId, frame.seq);
+        }).catch((error) => {
+            console.error(`[Relay] Failed to decrypt frame from ${senderId}:`, error);
+            addLog('error', `Failed to decrypt relayed data from ${senderId}`);
+        });
+    }, [getRelaySession, handleDataChannelMessage, sendRelayAck, addLog]);
+
+    const handleRelayAck = useCallback((message: RelayAckMessage) => {
+        const session = relaySessionsRef.current.get(message.senderId);
+        if (!session) return;
+
+        session.unacked.delete(message.payload.seq);
+        session.wake?.();
+        session.wake = null;
+    }, []);
+
+    const handleRelayError = useCallback((error: SignalingError) => {
+        failRelay(error.message);
+    }, [failRelay]);
+
     // Handle new peer joining - initiate connection
     const handlePeerJoined = useCallback((message: PeerJoinedMessage) => {
         const { payload: peer } = message;
@@ -408,14 +1399,29 @@ export function useWebRTC() {
         // Do NOT initiate connection here. Wait for the new peer to initiate.
     }, []);
 
-    // Handle peer list - new peer initiates connections to all existing peers
-    const handlePeerList = useCallback((peerList: any[]) => {
-        console.log(`[WebRTC] Received peer list with ${peerList.length} peers, initiating connections`);
+    // Handle peer list - new peer initiates connections to all existing peers.
+    // After a resumed session the list is a resync: keep live connections,
+    // drop peers that left meanwhile and connect to any that arrived.
+    const handlePeerList = useCallback((peerList: PeerInfo[]) => {
+        const currentPeerConnections = useStore.getState().peerConnections;
+        const listedIds = new Set(peerList.map(peer => peer.id));
+
+        currentPeerConnections.forEach((_pc, id) => {
+            if (!listedIds.has(id)) removePeerConnection(id);
+        });
+
+        const newPeers = peerList.filter(peer => !currentPeerConnections.has(peer.id));
+        console.log(`[WebRTC] Received peer list with ${peerList.length} peers, initiating ${newPeers.length} connections`);
         addLog('info', `Received peer list (${peerList.length} peers), initiating connections...`);
-        peerList.forEach(peer => {
+        newPeers.forEach(peer => {
             initiateConnection(peer.id, peer.username);
         });
-    }, [initiateConnection, addLog]);
+
+        // Connections that failed while we were away can't have been rebuilt then
+        currentPeerConnections.forEach(({ connection }, id) => {
+            if (listedIds.has(id) && connection.connectionState === 'failed') reconnectPeer(id);
+        });
+    }, [initiateConnection, reconnectPeer, removePeerConnection, addLog]);
 
     // Handle peer leaving
     const handlePeerLeft = useCallback((message: PeerLeftMessage) => {
@@ -425,16 +1431,52 @@ export function useWebRTC() {
 
         // Close and remove peer connection
         removePeerConnection(leftPeerId);
+        candidateQueuesRef.current.delete(leftPeerId);
+        reconnectAttemptsRef.current.delete(leftPeerId);
+        verificationsRef.current.delete(leftPeerId);
+        failRelay('Peer disconnected', leftPeerId);
+        relaySessionsRef.current.delete(leftPeerId);
 
-        // Mark any transfers from this peer as failed
+        // Mark any transfers from this peer as failed; it can't come back to resume them
         const transfers = useStore.getState().transfers;
         transfers.forEach(t => {
-            if (t.peerId === leftPeerId && t.status === 'transferring') {
+            if (t.peerId === leftPeerId && (t.status === 'pending' || t.status === 'transferring' || t.status === 'interrupted')) {
                 updateTransfer(t.id, { status: 'failed', error: 'Peer disconnected' });
                 addLog('error', `Transfer failed: Peer ${leftPeerId} disconnected`);
             }
         });
-    }, [removePeerConnection, updateTransfer, addLog]);
+        abandonTransfers('Peer disconnected', leftPeerId);
+        autoAcceptRef.current.delete(leftPeerId);
+    }, [removePeerConnection, failRelay, abandonTransfers, updateTransfer, addLog]);
+
+    // Handle being removed by the host - drop every peer connection
+    const handleRemoved = useCallback(() => {
+        const currentPeerConnections = useStore.getState().peerConnections;
+        currentPeerConnections.forEach((_pc, id) => removePeerConnection(id));
+        failRelay('Removed from the room');
+        relaySessionsRef.current.clear();
+        abandonTransfers('Removed from the room');
+        reconnectAttemptsRef.current.clear();
+        autoAcceptRef.current.clear();
+    }, [removePeerConnection, failRelay, abandonTransfers]);
+
+    // Files a closed tab left half-written in OPFS are of no use to anyone
+    useEffect(() => {
+        clearAbandonedFiles();
+    }, []);
+
+    // Hand refreshed TURN credentials to live connections so ICE restarts
+    // keep working. The first fetch happens on joining a room, ahead of the
+    // first connection.
+    useEffect(() => {
+        return subscribeIceServers((iceServers) => {
+            useStore.getState().peerConnections.forEach(({ connection }) => {
+                if (connection.signalingState !== 'closed') {
+                    connection.setConfiguration({ ...connection.getConfiguration(), iceServers });
+                }
+            });
+        });
+    }, []);
 
     // Set up signaling message handlers
     useEffect(() => {
@@ -445,8 +1487,26 @@ export function useWebRTC() {
             onPeerJoined: handlePeerJoined,
             onPeerLeft: handlePeerLeft,
             onPeerList: handlePeerList,
+            onRemoved: handleRemoved,
+            onRelayKey: handleRelayKey,
+            onRelay: handleRelay,
+            onRelayAck: handleRelayAck,
+            onRelayError: handleRelayError,
         });
-    }, [setMessageHandlers, handleOffer, handleAnswer, handleCandidate, handlePeerJoined, handlePeerLeft, handlePeerList]);
+    }, [
+        setMessageHandlers,
+        handleOffer,
+        handleAnswer,
+        handleCandidate,
+        handlePeerJoined,
+        handlePeerLeft,
+        handlePeerList,
+        handleRemoved,
+        handleRelayKey,
+        handleRelay,
+        handleRelayAck,
+        handleRelayError,
+    ]);
 
     // Send chat message
     const sendChatMessage = useCallback((content: string, targetPeerId?: string) => {
@@ -462,13 +1522,14 @@ export function useWebRTC() {
         const messageStr = JSON.stringify(message);
 
         // Get latest connections
-        const currentPeerConnections = useStore.getState().peerConnections;
+        const { peerConnections: currentPeerConnections, roomKey } = useStore.getState();
 
         if (targetPeerId) {
             // Send to specific peer
             const pc = currentPeerConnections.get(targetPeerId);
-            if (pc?.dataChannel?.readyState === 'open') {
-                pc.dataChannel.send(messageStr);
+            const channel = pc && messageChannel(pc);
+            if (channel?.readyState === 'open') {
+                transmit(targetPeerId, channel, messageStr, roomKey);
                 addLog('info', `Sent message to ${targetPeerId}`);
             } else {
                 addLog('error', `Cannot send message: no data channel with ${targetPeerId}`);
@@ -477,8 +1538,9 @@ export function useWebRTC() {
             // Broadcast to all peers
             let sentCount = 0;
             currentPeerConnections.forEach(pc => {
-                if (pc.dataChannel?.readyState === 'open') {
-                    pc.dataChannel.send(messageStr);
+                const channel = messageChannel(pc);
+                if (channel?.readyState === 'open') {
+                    transmit(pc.id, channel, messageStr, roomKey);
                     sentCount++;
                 }
             });
@@ -489,17 +1551,17 @@ export function useWebRTC() {
         addMessage(message);
     }, [peerId, username, addMessage, addLog]);
 
-    // Send file
-    const sendFile = useCallback(async (file: File, targetPeerId?: string) => {
-        const fileId = Math.random().toString(36).slice(2) + Date.now().toString(36);
+    // Send a queued file, or a folder's files back to back, as one transfer
+    const sendData = useCallback(async ({ id: fileId, source, name, mime, entries, targetPeerId }: QueuedSend) => {
 
         const metadata: FileMetadata = {
             id: fileId,
-            filename: file.name,
-            size: file.size,
-            mime: file.type || 'application/octet-stream',
+            filename: name,
+            size: source.size,
+            mime: mime || 'application/octet-stream',
             senderId: peerId || '',
             senderName: username,
+            ...(entries && { entries }),
         };
 
         // Get latest connections
@@ -514,104 +1576,557 @@ export function useWebRTC() {
             currentPeerConnections.forEach(pc => targetConnections.push(pc));
         }
 
-        if (targetConnections.length === 0) {
+        // Use the data channel where there is one, and fall back to the server
+        // relay for peers we could never reach directly
+        const { relayAvailable, peers, roomKey } = useStore.getState();
+        const candidates: TransferRoute[] = [];
+        targetConnections.forEach((pc) => {
+            const channel = pc.dataChannel;
+            // Without a data channel there is no hello, so go by what the peer announced on join
+            const announced = peers.find(p => p.id === pc.id);
+            const announcedProtocol = negotiateProtocol(announced?.version, announced?.capabilities);
+
+            if (channel?.readyState === 'open') {
+                candidates.push(createChannelRoute(pc.id, channel, pc.protocol ?? LEGACY_PROTOCOL, roomKey));
+            } else if (
+                relayAvailable
+                && hasFeature(announcedProtocol, 'relay')
+                && (pc.connection.connectionState === 'failed' || pc.connection.connectionState === 'closed')
+            ) {
+                const session = relaySessionsRef.current.get(pc.id);
+                if (session) session.error = null; // Let a new transfer retry after an earlier failure
+                addLog('warn', roomKey
+                    ? `No direct connection to ${pc.username || pc.id}; relaying through the server (end-to-end encrypted)`
+                    : `No direct connection to ${pc.username || pc.id}; relaying through the server (encrypted, but the server could have swapped the keys; use an encrypted room to rule that out)`);
+                // Relay frames carry text, so chunks fall back to base64 there
+                candidates.push({
+                    peerId: pc.id,
+                    relayed: true,
+                    protocol: { ...announcedProtocol, features: announcedProtocol.features.filter(f => f !== 'binary-chunks') },
+                    send: async (data) => {
+                        if (typeof data !== 'string') throw new Error('Binary data cannot be relayed');
+                        await sendRelayed(pc.id, data);
+                    },
+                });
+            }
+        });
+
+        // A folder's bytes mean nothing to a peer that can't split them up, and
+        // the file-start has to fit in one frame for a relayed peer
+        const startMessage: FileStart = { type: 'file-start', metadata };
+        const startStr = JSON.stringify(startMessage);
+        const routes = candidates.filter((route) => {
+            const peer = currentPeerConnections.get(route.peerId);
+            if (entries && !hasFeature(route.protocol, 'folders')) {
+                addLog('warn', `${peer?.username || route.peerId} can't receive folders; not sending ${name} to them`);
+                return false;
+            }
+            if (route.relayed && !fitsRelayFrame(startStr)) {
+                addLog('warn', `${name} lists too many files to relay to ${peer?.username || route.peerId}; not sending it to them`);
+                return false;
+            }
+            return true;
+        });
+
+        if (routes.length === 0) {
             console.error('[WebRTC] No peers to send file to');
             addLog('warn', 'No peers to send file to');
+            updateTransfer(fileId, { status: 'failed', error: 'No peers to send to' });
             return;
         }
 
-        addLog('info', `Sending file: ${file.name} (${(file.size / 1024).toFixed(1)} KB) to ${targetPeerId ? targetPeerId : 'all peers'}`);
+        const relayed = routes.some(route => route.relayed);
+        // Peers that want to be asked get the metadata first and nothing more until they accept
+        const awaiting = new Set(routes.filter(route => hasFeature(route.protocol, 'file-offer')).map(route => route.peerId));
+
+        addLog('info', `Sending file: ${name} (${(source.size / 1024).toFixed(1)} KB) to ${targetPeerId ? targetPeerId : 'all peers'}`);
+
+        updateTransfer(fileId, { status: awaiting.size === routes.length ? 'pending' : 'transferring', relayed });
+
+        // Bytes each peer has been sent so far, for peers still receiving
+        // (or done); progress follows the slowest, since that's when the
+        // transfer finishes
+        const sent = new Map<string, number>(routes.map(route => [route.peerId, 0]));
+        // Peers whose connection dropped; the transfer shows as interrupted
+        // (or pending) only while no peer is left receiving
+        const parked = new Set<string>();
+        // Peers whose send loop is held by a pause
+        const held = new Set<string>();
+        const reportStatus = () => {
+            let status: FileTransfer['status'] = 'transferring';
+            const waiting = Array.from(sent.keys()).filter(id => parked.has(id) || awaiting.has(id) || held.has(id));
+            if (waiting.length === sent.size) {
+                if (held.size > 0) status = 'paused';
+                else status = parked.size > 0 ? 'interrupted' : 'pending';
+            }
+            updateTransfer(fileId, { status });
+        };
 
-        // Add transfer to state
-        const transfer: FileTransfer = {
-            id: fileId,
-            filename: file.name,
-            size: file.size,
-            mime: file.type,
-            progress: 0,
-            status: 'transferring',
-            direction: 'send',
-            peerId: targetPeerId || 'broadcast',
-            timestamp: Date.now(),
+        const waitForAnswer = (route: TransferRoute, outgoing: OutgoingTransfer) => unlessClosed<boolean>(
+            route.channel,
+            'Connection lost before the file was accepted',
+            (resolve, reject) => {
+                outgoing.answer = { resolve, reject };
+            },
+        ).finally(() => {
+            outgoing.answer = null;
+        });
+
+        // Peers that ack count only what they confirmed; for the rest, what
+        // was sent is the best there is
+        const acking = new Set(routes.filter(isResumable).map(route => route.peerId));
+        const confirmed = new Map<string, number>();
+        const meters = new Map(routes.map(route => [route.peerId, new ThroughputMeter()]));
+        // How each peer's copy ended
+        const outcomes = new Map<string, Pick<PeerDelivery, 'status' | 'error'>>();
+
+        const deliveredBytes = (id: string) => {
+            if (outcomes.get(id)?.status === 'completed') return source.size;
+            const sentBytes = sent.get(id);
+            if (sentBytes === undefined) return confirmed.get(id) ?? 0; // Stopped; keep the last figure
+            const outgoing = outgoingRef.current.get(transferKey(fileId, id));
+            const bytes = outgoing && acking.has(id) ? Math.min(sentBytes, (outgoing.acked + 1) * CHUNK_SIZE) : sentBytes;
+            confirmed.set(id, bytes);
+            return bytes;
         };
-        addTransfer(transfer);
 
-        // Send file start message
-        const startMessage: FileStart = { type: 'file-start', metadata };
-        const startStr = JSON.stringify(startMessage);
-        targetConnections.forEach(pc => {
-            if (pc.dataChannel?.readyState === 'open') {
-                pc.dataChannel.send(startStr);
-            }
+        // Per-peer breakdown, plus overall progress, speed and ETA
+        const reportProgress = () => {
+            const now = Date.now();
+            const deliveries = routes.map(({ peerId: id }): PeerDelivery => {
+                const bytes = deliveredBytes(id);
+                const outcome = outcomes.get(id);
+                let status: PeerDelivery['status'] = 'transferring';
+                if (outcome) status = outcome.status;
+                else if (parked.has(id)) status = 'interrupted';
+                else if (held.has(id)) status = 'paused';
+                else if (awaiting.has(id)) status = 'pending';
+
+                const bytesPerSecond = status === 'transferring' ? meters.get(id)!.update(bytes, now) : 0;
+                return {
+                    peerId: id,
+                    peerName: currentPeerConnections.get(id)?.username,
+                    status,
+                    deliveredBytes: bytes,
+                    bytesPerSecond,
+                    eta: status === 'transferring' ? etaSeconds(source.size - bytes, bytesPerSecond) : null,
+                    ...(outcome?.error && { error: outcome.error }),
+                };
+            });
+
+            const moving = deliveries.filter(delivery => delivery.status === 'transferring');
+            const etas = moving.map(delivery => delivery.eta);
+            const remaining = deliveries.filter(delivery => sent.has(delivery.peerId)).map(delivery => delivery.deliveredBytes);
+            updateTransfer(fileId, {
+                deliveries,
+                bytesPerSecond: moving.reduce((sum, delivery) => sum + delivery.bytesPerSecond, 0),
+                eta: etas.some(eta => eta === null) ? null : Math.max(0, ...(etas as number[])),
+                ...(remaining.length > 0 && { progress: progressPercent(Math.min(...remaining), source.size) }),
+            });
+        };
+
+        // Hashed while the first chunks go out
+        const fileHash = hashBlob(source).catch((error) => {
+            console.warn('[WebRTC] Could not hash file:', error);
+            addLog('warn', `Sending ${name} without a checksum`);
+            return undefined;
         });
 
-        // Read and send file in chunks
-        const reader = new FileReader();
-        let offset = 0;
-        let chunkIndex = 0;
+        const doneStr = async (chunks: number) => {
+            const doneMessage: FileComplete = { type: 'done', fileId, blockHash: await fileHash, chunks };
+            return JSON.stringify(doneMessage);
+        };
 
-        const readNextChunk = () => {
-            const slice = file.slice(offset, offset + CHUNK_SIZE);
-            reader.readAsArrayBuffer(slice);
+        // Wait until the peer confirms everything up to index, or the channel dies
+        const waitForAck = async (route: TransferRoute, outgoing: OutgoingTransfer, index: number) => {
+            while (outgoing.acked < index) {
+                if (outgoing.cancelled) throw new Error('Transfer cancelled');
+                try {
+                    await withTimeout(
+                        unlessClosed<void>(route.channel, 'Data channel closed', (resolve) => {
+                            outgoing.wake = resolve;
+                        }),
+                        ACK_TIMEOUT_MS,
+                        'Peer stopped acknowledging data',
+                    );
+                } finally {
+                    // Settles a wait that timed out, which removes its listener
+                    outgoing.wake?.();
+                    outgoing.wake = null;
+                }
+            }
         };
 
-        reader.onload = (e) => {
-            if (!e.target?.result) return;
+        // Resolves with the chunk to continue from once the peer reconnects
+        const waitForResume = (outgoing: OutgoingTransfer) => withTimeout(
+            new Promise<number>((resolve, reject) => {
+                outgoing.waiting = { resolve, reject };
+            }),
+            RESUME_TIMEOUT_MS,
+            'Peer did not reconnect in time',
+        ).finally(() => {
+            outgoing.waiting = null;
+        });
 
-            const chunk = new Uint8Array(e.target.result as ArrayBuffer);
+        // Called before every chunk: stops a cancelled loop, and holds a
+        // paused one until either side resumes
+        const waitWhilePaused = async (route: TransferRoute, outgoing: OutgoingTransfer) => {
+            if (outgoing.cancelled) throw new Error('Transfer cancelled');
+            if (!outgoing.paused) return;
 
-            // Convert to base64
-            let binary = '';
-            chunk.forEach(byte => binary += String.fromCharCode(byte));
-            const base64 = btoa(binary);
+            held.add(outgoing.peerId);
+            reportStatus();
+            try {
+                while (outgoing.paused) {
+                    await unlessClosed<void>(route.channel, 'Data channel closed', (resolve, reject) => {
+                        outgoing.unpause = { resolve, reject };
+                    }).finally(() => {
+                        outgoing.unpause = null;
+                    });
+                }
+            } finally {
+                held.delete(outgoing.peerId);
+            }
+            reportStatus();
+        };
 
-            const chunkMessage: FileChunk = {
-                type: 'chunk',
+        // Each peer gets its own loop, paced by its own channel, so a slow
+        // peer never holds back the others
+        const sendToRoute = async (initialRoute: TransferRoute): Promise<'sent' | 'declined' | 'cancelled'> => {
+            let route = initialRoute;
+            const { peerId: targetId } = route;
+            // Fixed for the whole transfer, so chunk indexes stay valid across a resume
+            const chunkSize = route.relayed ? RELAY_CHUNK_SIZE : CHUNK_SIZE;
+            const chunkCount = Math.ceil(source.size / chunkSize);
+
+            const key = transferKey(fileId, targetId);
+            const outgoing: OutgoingTransfer = {
                 fileId,
-                index: chunkIndex,
-                data: base64,
+                peerId: targetId,
+                acked: -1,
+                wake: null,
+                answer: null,
+                waiting: null,
+                relayed: route.relayed,
+                paused: false,
+                unpause: null,
+                cancelled: false,
             };
+            outgoingRef.current.set(key, outgoing);
+            // Extra channels for a large file, opened once the peer has accepted
+            let stripes: StripeSet | null = null;
+
+            try {
+                await route.send(startStr);
+
+                if (awaiting.has(targetId)) {
+                    const accepted = await waitForAnswer(route, outgoing);
+                    awaiting.delete(targetId);
+                    if (!accepted) {
+                        sent.delete(targetId);
+                        outcomes.set(targetId, { status: 'declined' });
+                        addLog('warn', `${targetId} declined ${name}`);
+                        reportStatus();
+                        reportProgress();
+                        return 'declined';
+                    }
+                    addLog('info', `${targetId} accepted ${name}`);
+                    reportStatus();
+                }
 
-            const chunkStr = JSON.stringify(chunkMessage);
-            targetConnections.forEach(pc => {
-                if (pc.dataChannel?.readyState === 'open') {
-                    pc.dataChannel.send(chunkStr);
+                let index = 0;
+                for (;;) {
+                    try {
+                        const encoding = chunkEncoding(route.protocol);
+                        if (!stripes && canStripe(route, source.size)) {
+                            const connection = useStore.getState().peerConnections.get(targetId)?.connection;
+                            stripes = connection ? await StripeSet.open(connection) : null;
+                            if (stripes) addLog('info', `Striping ${name} to ${targetId} over ${stripes.size} extra channels`);
+                        }
+
+                        for (; index < chunkCount; index++) {
+                            await waitWhilePaused(route, outgoing);
+                            if (stripes) {
+                                // Stay within what the receiver will hold out of order
+                                await waitForAck(route, outgoing, index - STRIPE_WINDOW);
+                                stripes.adapt((outgoing.acked + 1) * chunkSize);
+                            }
+
+                            const offset = index * chunkSize;
+                            const chunk = new Uint8Array(await source.slice(offset, offset + chunkSize).arrayBuffer());
+                            const flags = index === chunkCount - 1 ? CHUNK_FLAG_LAST : 0;
+                            const frame = encodeChunk(encoding, fileId, index, chunk, flags);
+                            if (stripes && typeof frame !== 'string') {
+                                await stripes.send(roomKey ? await sealFrame(roomKey.key, frame, routeTo(targetId, STRIPE_LABEL)) : frame);
+                            } else {
+                                await route.send(frame);
+                            }
+
+                            sent.set(targetId, offset + chunk.length);
+                        }
+
+                        await route.send(await doneStr(chunkCount));
+                        if (isResumable(route)) await waitForAck(route, outgoing, chunkCount - 1);
+                        outcomes.set(targetId, { status: 'completed' });
+                        return 'sent';
+                    } catch (error) {
+                        if (outgoing.cancelled || !isResumable(route)) throw error;
+
+                        addLog('warn', `Lost connection to ${targetId} while sending ${name}; waiting for it to reconnect`);
+                        // They went down with the connection; new ones are opened after the resume
+                        stripes?.close();
+                        stripes = null;
+                        parked.add(targetId);
+                        reportStatus();
+
+                        index = await waitForResume(outgoing);
+                        const pc = useStore.getState().peerConnections.get(targetId);
+                        if (!pc?.dataChannel || pc.dataChannel.readyState !== 'open') throw new Error('Data channel closed');
+
+                        route = createChannelRoute(targetId, pc.dataChannel, pc.protocol ?? LEGACY_PROTOCOL, roomKey);
+                        outgoing.acked = index - 1;
+                        sent.set(targetId, Math.min(index * chunkSize, source.size));
+                        parked.delete(targetId);
+                        reportStatus();
+                        addLog('info', `Resuming ${name} for ${targetId} from chunk ${index} of ${chunkCount}`);
+                    }
                 }
-            });
+            } catch (error) {
+                // Drop this peer; the transfer fails only once no peer is left
+                sent.delete(targetId);
+                parked.delete(targetId);
+                awaiting.delete(targetId);
+                if (outgoing.cancelled) {
+                    outcomes.set(targetId, { status: 'cancelled' });
+                    reportStatus();
+                    reportProgress();
+                    return 'cancelled';
+                }
+                outcomes.set(targetId, { status: 'failed', error: (error as Error)?.message || 'Error sending file' });
+                addLog('error', `Stopped sending ${name} to ${targetId}: ${(error as Error)?.message || error}`);
+                throw error;
+            } finally {
+                stripes?.close();
+                outgoingRef.current.delete(key);
+            }
+        };
 
-            offset += chunk.length;
-            chunkIndex++;
+        const ticker = setInterval(reportProgress, PROGRESS_INTERVAL_MS);
+        const results = await Promise.allSettled(routes.map(sendToRoute));
+        clearInterval(ticker);
+        reportProgress();
+        const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+        const delivered = results.some(result => result.status === 'fulfilled' && result.value === 'sent');
+        const cancelled = results.some(result => result.status === 'fulfilled' && result.value === 'cancelled');
+
+        if (!delivered && cancelled) {
+            updateTransfer(fileId, { status: 'cancelled' });
+            addLog('info', `Cancelled ${name}`);
+            return;
+        }
 
-            // Update progress
-            const progress = Math.round((offset / file.size) * 100);
-            updateTransfer(fileId, { progress });
+        if (!delivered && failures.length > 0) {
+            const error = failures[failures.length - 1].reason;
+            console.error('[WebRTC] Error sending file:', error);
+            addLog('error', `Error sending file: ${name}`);
+            updateTransfer(fileId, { status: 'failed', error: (error as Error)?.message || 'Error sending file' });
+            return;
+        }
 
-            if (offset < file.size) {
-                // Add small delay to prevent overwhelming the channel
-                setTimeout(readNextChunk, 10);
-            } else {
-                // File complete
-                const doneMessage: FileComplete = { type: 'done', fileId };
-                const doneStr = JSON.stringify(doneMessage);
-                targetConnections.forEach(pc => {
-                    if (pc.dataChannel?.readyState === 'open') {
-                        pc.dataChannel.send(doneStr);
-                    }
+        if (!delivered) {
+            updateTransfer(fileId, { status: 'declined' });
+            addLog('warn', `File declined: ${name}`);
+            return;
+        }
+
+        updateTransfer(fileId, { status: 'completed', progress: 100 });
+        addLog('success', `File sent: ${name}`);
+    }, [peerId, username, sendRelayed, updateTransfer, addLog]);
+
+    // Start queued sends while there are free slots
+    const pumpQueue = useCallback(() => {
+        const { sendQueue, sendConcurrency: limit, removeQueuedSend } = useStore.getState();
+        const ready = sendQueue.slice(0, Math.max(0, limit - activeSendsRef.current.size));
+
+        ready.forEach((item) => {
+            removeQueuedSend(item.id);
+            activeSendsRef.current.add(item.id);
+            sendData(item)
+                .catch((error) => {
+                    console.error(`[WebRTC] Send of ${item.id} failed:`, error);
+                    updateTransfer(item.id, { status: 'failed', error: (error as Error)?.message || 'Error sending file' });
+                })
+                .finally(() => {
+                    activeSendsRef.current.delete(item.id);
+                    pumpQueueRef.current?.();
                 });
+        });
+    }, [sendData, updateTransfer]);
+
+    useEffect(() => {
+        pumpQueueRef.current = pumpQueue;
+    }, [pumpQueue]);
+
+    // A higher limit starts more of the queue right away
+    useEffect(() => {
+        pumpQueue();
+    }, [sendConcurrency, pumpQueue]);
+
+    // Show a send in the feed and wait for a slot
+    const enqueueSend = useCallback((item: QueuedSend) => {
+        addTransfer({
+            id: item.id,
+            filename: item.name,
+            size: item.source.size,
+            mime: item.mime,
+            progress: 0,
+            status: 'queued',
+            direction: 'send',
+            peerId: item.targetPeerId || 'broadcast',
+            timestamp: Date.now(),
+            ...(item.entries && { folder: { files: item.entries.length } }),
+        });
+        useStore.getState().enqueueSend(item);
+        pumpQueue();
+    }, [addTransfer, pumpQueue]);
+
+    const sendFile = useCallback((file: File, targetPeerId?: string) => {
+        enqueueSend({
+            id: Math.random().toString(36).slice(2) + Date.now().toString(36),
+            source: file,
+            name: file.name,
+            mime: file.type,
+            targetPeerId,
+        });
+    }, [enqueueSend]);
+
+    // The receiver gets the folder's files under their relative paths
+    const sendFolder = useCallback((folder: OutgoingFolder, targetPeerId?: string) => {
+        const entries = folderListing(folder);
+        if (JSON.stringify(entries).length > MAX_LISTING_BYTES) {
+            addLog('error', `${folder.name} has too many files to send as one folder`);
+            return;
+        }
+        enqueueSend({
+            id: Math.random().toString(36).slice(2) + Date.now().toString(36),
+            source: new Blob(folder.files.map(({ file }) => file)),
+            name: folder.name,
+            mime: '',
+            entries,
+            targetPeerId,
+        });
+    }, [enqueueSend, addLog]);
+
+    // Pause a file in either direction. A sender's loops stop before their
+    // next chunk; a receiver asks the sender to stop.
+    const pauseTransfer = useCallback((fileId: string) => {
+        const transfer = useStore.getState().transfers.find(t => t.id === fileId);
+        if (!transfer) return;
+
+        if (transfer.direction === 'send') {
+            outgoingRef.current.forEach((outgoing) => {
+                if (outgoing.fileId !== fileId || outgoing.paused) return;
+                outgoing.paused = true;
+                sendTransferControl(outgoing.peerId, 'pause', fileId, outgoing.relayed);
+            });
+            return;
+        }
+
+        const buffer = fileBuffersRef.current.get(fileId);
+        if (!buffer || buffer.paused) return;
+        if (!sendTransferControl(buffer.senderId, 'pause', fileId, !!transfer.relayed)) {
+            addLog('warn', `${transfer.peerName || buffer.senderId} can't pause transfers`);
+            return;
+        }
+        buffer.paused = true;
+        updateTransfer(fileId, { status: 'paused' });
+    }, [sendTransferControl, updateTransfer, addLog]);
+
+    // Either side may resume, whoever paused
+    const resumeTransfer = useCallback((fileId: string) => {
+        const transfer = useStore.getState().transfers.find(t => t.id === fileId);
+        if (!transfer) return;
+
+        if (transfer.direction === 'send') {
+            outgoingRef.current.forEach((outgoing) => {
+                if (outgoing.fileId !== fileId || !outgoing.paused) return;
+                outgoing.paused = false;
+                outgoing.unpause?.resolve();
+                sendTransferControl(outgoing.peerId, 'resume', fileId, outgoing.relayed);
+            });
+            return;
+        }
 
-                updateTransfer(fileId, { status: 'completed', progress: 100 });
-                addLog('success', `File sent: ${file.name}`);
+        const buffer = fileBuffersRef.current.get(fileId);
+        if (!buffer || !buffer.paused) return;
+        sendTransferControl(buffer.senderId, 'resume', fileId, !!transfer.relayed);
+        buffer.paused = false;
+        if (!buffer.expiry) updateTransfer(fileId, { status: 'transferring' });
+    }, [sendTransferControl, updateTransfer]);
+
+    // Stop a file for good. A queued send never starts; a receiver drops
+    // what it has so far.
+    const cancelTransfer = useCallback((fileId: string) => {
+        const { transfers, sendQueue, removeQueuedSend } = useStore.getState();
+        const transfer = transfers.find(t => t.id === fileId);
+        if (!transfer) return;
+
+        if (transfer.direction === 'send') {
+            if (sendQueue.some(item => item.id === fileId)) {
+                removeQueuedSend(fileId);
+                updateTransfer(fileId, { status: 'cancelled' });
+                addLog('info', `Cancelled ${transfer.filename}`);
+                return;
             }
-        };
+            // sendData marks the transfer cancelled once every loop has stopped
+            outgoingRef.current.forEach((outgoing) => {
+                if (outgoing.fileId !== fileId || outgoing.cancelled) return;
+                sendTransferControl(outgoing.peerId, 'cancel', fileId, outgoing.relayed);
+                cancelOutgoing(outgoing);
+            });
+            return;
+        }
 
-        reader.onerror = () => {
-            console.error('[WebRTC] Error reading file');
-            addLog('error', `Error reading file: ${file.name}`);
-            updateTransfer(fileId, { status: 'failed', error: 'Error reading file' });
-        };
+        const buffer = fileBuffersRef.current.get(fileId);
+        if (!buffer) return;
+        sendTransferControl(buffer.senderId, 'cancel', fileId, !!transfer.relayed);
+        discardReceive(fileId);
+        updateTransfer(fileId, { status: 'cancelled' });
+        addLog('info', `Cancelled ${transfer.filename}`);
+    }, [sendTransferControl, discardReceive, updateTransfer, addLog]);
+
+    // Answer a file offer from the feed; alwaysAccept skips the question for
+    // this peer's later files
+    const respondToOffer = useCallback(async (fileId: string, accepted: boolean, alwaysAccept = false) => {
+        const offer = offersRef.current.get(fileId);
+        if (!offer) return;
+
+        if (accepted) {
+            // First, while the click still allows a save dialog
+            let sink: FileSink;
+            try {
+                const open = offer.metadata.entries ? openFolderSink : openSink;
+                sink = await open(offer.metadata, { interactive: true });
+            } catch {
+                return; // Save dialog cancelled; the offer stays open
+            }
+
+            // The peer may have left while the dialog was up
+            if (!offersRef.current.delete(fileId)) {
+                sink.abort().catch(() => undefined);
+                return;
+            }
 
-        readNextChunk();
-    }, [peerId, username, addTransfer, updateTransfer, addLog]);
+            if (alwaysAccept) autoAcceptRef.current.add(offer.senderId);
+            startReceive(offer.senderId, offer.metadata, Promise.resolve(sink));
+            updateTransfer(fileId, { status: 'transferring' });
+        } else {
+            offersRef.current.delete(fileId);
+            addLog('info', `Declined ${offer.metadata.filename}`);
+            updateTransfer(fileId, { status: 'declined' });
+        }
+        sendFileAnswer(offer, accepted);
+    }, [startReceive, sendFileAnswer, updateTransfer, addLog]);
 
     return {
         connect,
@@ -620,5 +2135,14 @@ export function useWebRTC() {
         leaveRoom,
         sendChatMessage,
         sendFile,
+        sendFolder,
+        respondToOffer,
+        pauseTransfer,
+        resumeTransfer,
+        cancelTransfer,
+        kickPeer,
+        banPeer,
+        setRoomLocked,
+        answerKnock,
     };
 }
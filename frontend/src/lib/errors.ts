@@ -0,0 +1,7 @@
+import { SignalingError } from '@/types';
+
+// Server error text plus its retry-after hint, if any
+export function describeError(error: Pick<SignalingError, 'message' | 'retryAfter'>): string {
+    if (!error.retryAfter) return error.message;
+    return `${error.message}. Try again in ${error.retryAfter}s.`;
+}
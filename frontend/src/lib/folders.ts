@@ -0,0 +1,114 @@
+// Folders travel as one transfer: the files' bytes back to back, with a
+// listing of relative paths and sizes in the file-start so the receiver can
+// split them apart again. Paths come from the other peer, so they are checked
+// before anything is written under them.
+import { FileMetadata, FolderEntry } from '@/types';
+
+// Most entries a folder may list (also the most a plain zip can hold)
+export const MAX_FOLDER_ENTRIES = 0xffff;
+// Keeps the file-start carrying the listing well under a data channel message.
+// Relayed peers get a much smaller budget; see fitsRelayFrame.
+export const MAX_LISTING_BYTES = 192 * 1024;
+
+export interface FolderFile {
+    file: File;
+    path: string; // Relative to the folder, '/'-separated
+}
+
+export interface OutgoingFolder {
+    name: string;
+    files: FolderFile[];
+}
+
+// A relative path that can't climb out of the folder or name something odd
+export function isSafeEntryPath(path: string): boolean {
+    if (!path || path.length > 4096 || /[\\\u0000-\u001f\u007f]/.test(path)) return false;
+    return path.split('/').every(part => part !== '' && part !== '.' && part !== '..');
+}
+
+// Check a folder's file-start: its name and listing, against the total size
+export function isValidFolder(metadata: FileMetadata): boolean {
+    const { filename, entries, size } = metadata;
+    if (typeof filename !== 'string' || filename.includes('/') || !isSafeEntryPath(filename)) return false;
+    if (!Array.isArray(entries) || entries.length === 0 || entries.length > MAX_FOLDER_ENTRIES) return false;
+
+    const paths = new Set<string>();
+    let total = 0;
+    for (const entry of entries as FolderEntry[]) {
+        if (typeof entry?.path !== 'string' || !isSafeEntryPath(entry.path)) return false;
+        if (!Number.isSafeInteger(entry.size) || entry.size < 0) return false;
+        if (typeof entry.mime !== 'string') return false;
+        if (paths.has(entry.path)) return false;
+        paths.add(entry.path);
+        total += entry.size;
+    }
+    return total === size;
+}
+
+export function folderListing(folder: OutgoingFolder): FolderEntry[] {
+    return folder.files.map(({ file, path }) => ({ path, size: file.size, mime: file.type }));
+}
+
+// Files picked through an <input webkitdirectory>, grouped by top-level folder
+export function foldersFromInput(files: FileList): OutgoingFolder[] {
+    const folders = new Map<string, FolderFile[]>();
+    for (const file of Array.from(files)) {
+        const [root, ...rest] = (file.webkitRelativePath || file.name).split('/');
+        if (rest.length === 0) continue;
+        if (!folders.has(root)) folders.set(root, []);
+        folders.get(root)!.push({ file, path: rest.join('/') });
+    }
+    return Array.from(folders, ([name, files]) => ({ name, files }));
+}
+
+function readAllEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+    return new Promise((resolve, reject) => {
+        const entries: FileSystemEntry[] = [];
+        // Each call returns a batch; an empty one means the directory is done
+        const next = () => reader.readEntries((batch) => {
+            if (batch.length === 0) {
+                resolve(entries);
+            } else {
+                entries.push(...batch);
+                next();
+            }
+        }, reject);
+        next();
+    });
+}
+
+function entryFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function walkDirectory(directory: FileSystemDirectoryEntry, prefix: string, files: FolderFile[]): Promise<void> {
+    for (const entry of await readAllEntries(directory.createReader())) {
+        const path = prefix + entry.name;
+        if (entry.isDirectory) {
+            await walkDirectory(entry as FileSystemDirectoryEntry, path + '/', files);
+        } else if (entry.isFile) {
+            files.push({ file: await entryFile(entry as FileSystemFileEntry), path });
+        }
+    }
+}
+
+// Split a drop into loose files and whole folders. The entries must be taken
+// from the DataTransfer before the first await, while the drop event lasts.
+export async function readDrop(dataTransfer: DataTransfer): Promise<{ files: File[]; folders: OutgoingFolder[] }> {
+    const items = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => ({ entry: item.webkitGetAsEntry?.() ?? null, file: item.getAsFile() }));
+
+    const files: File[] = [];
+    const folders: OutgoingFolder[] = [];
+    for (const { entry, file } of items) {
+        if (entry?.isDirectory) {
+            const folderFiles: FolderFile[] = [];
+            await walkDirectory(entry as FileSystemDirectoryEntry, '', folderFiles);
+            if (folderFiles.length > 0) folders.push({ name: entry.name, files: folderFiles });
+        } else if (file) {
+            files.push(file);
+        }
+    }
+    return { files, folders };
+}
@@ -0,0 +1,98 @@
+import { IceServersResponse } from '@/types';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+// Used only when the signaling server can't be reached
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+
+// Fetch new credentials this long before the current ones expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const RETRY_DELAY_MS = 30 * 1000;
+
+// The server only hands TURN credentials to room members, who prove it with
+// their resume token
+let access: { roomId: string; resumeToken: string } | null = null;
+let cached: { iceServers: RTCIceServer[]; refreshAt: number; expiresAt: number } | null = null;
+let pending: Promise<RTCIceServer[]> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(iceServers: RTCIceServer[]) => void>();
+
+function heldIceServers(): RTCIceServer[] {
+    // Credentials we still hold beat STUN alone
+    if (cached && cached.expiresAt > Date.now()) return cached.iceServers;
+    return FALLBACK_ICE_SERVERS;
+}
+
+async function fetchIceServers(): Promise<RTCIceServer[]> {
+    if (!access) return heldIceServers();
+
+    try {
+        const response = await fetch(`${API_URL}/ice-servers?roomId=${encodeURIComponent(access.roomId)}`, {
+            cache: 'no-store',
+            headers: { Authorization: `Bearer ${access.resumeToken}` },
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        const config: IceServersResponse = await response.json();
+        const lifetime = config.expiresAt - Date.now();
+        cached = {
+            iceServers: config.iceServers,
+            expiresAt: config.expiresAt,
+            // Short-lived credentials refresh halfway through instead
+            refreshAt: Date.now() + Math.max(lifetime - REFRESH_MARGIN_MS, lifetime / 2),
+        };
+        scheduleRefresh(cached.refreshAt - Date.now());
+        listeners.forEach(listener => listener(config.iceServers));
+        return config.iceServers;
+    } catch (error) {
+        console.error('[ICE] Failed to fetch ICE servers:', error);
+        scheduleRefresh(RETRY_DELAY_MS);
+        return heldIceServers();
+    }
+}
+
+// Refresh ahead of expiry so new connections never wait on the network
+function scheduleRefresh(delayMs: number): void {
+    if (refreshTimer) clearTimeout(refreshTimer);
+    refreshTimer = setTimeout(() => {
+        refreshTimer = null;
+        refreshIceServers();
+    }, Math.max(delayMs, 0));
+}
+
+function refreshIceServers(): Promise<RTCIceServer[]> {
+    if (!pending) {
+        pending = fetchIceServers().finally(() => {
+            pending = null;
+        });
+    }
+    return pending;
+}
+
+// Current ICE configuration, fetched from the server and cached until shortly before it expires
+export function getIceServers(): Promise<RTCIceServer[]> {
+    if (cached && Date.now() < cached.refreshAt) {
+        return Promise.resolve(cached.iceServers);
+    }
+    return refreshIceServers();
+}
+
+// Set once this client is in a room, and cleared when it leaves. Fetches
+// credentials straight away if there are none to use.
+export function setIceServerAccess(next: { roomId: string; resumeToken: string } | null): void {
+    access = next;
+    if (!access) {
+        if (refreshTimer) clearTimeout(refreshTimer);
+        refreshTimer = null;
+    } else if (!cached || Date.now() >= cached.refreshAt) {
+        refreshIceServers();
+    }
+}
+
+// Called with every newly fetched configuration, e.g. to update live connections
+export function subscribeIceServers(listener: (iceServers: RTCIceServer[]) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,165 @@
+// This device's identity for peer verification. Every connection uses the
+// same DTLS certificate, kept in IndexedDB, so the fingerprint in its SDP
+// stays the same across rooms and reloads. Both peers turn the two
+// fingerprints into a short sequence of emoji; if the signaling server
+// swapped a fingerprint to sit in the middle, the two sides see different
+// sequences.
+//
+// The fingerprints alone are known in advance, so someone in the middle
+// could try certificates until both sides happened to get the same code.
+// Each side therefore also mixes in a random nonce, committing to its hash
+// before either nonce is revealed (as ZRTP does): by the time anyone learns
+// the other's nonce, their own is fixed, and a forger gets one guess per
+// connection.
+import { SasSymbol } from '@/types';
+
+const DB_NAME = 'aeroshare-identity';
+const STORE_NAME = 'certificates';
+const CERTIFICATE_KEY = 'device';
+// Renewed once it runs out, after which peers have to verify this device again
+const CERTIFICATE_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000;
+// Don't start a connection on a certificate about to expire
+const CERTIFICATE_RENEW_MARGIN_MS = 24 * 60 * 60 * 1000;
+const VERIFIED_STORAGE_KEY = 'aeroshare_verified_devices';
+
+// Six symbols of six bits each: a one in 2^36 chance per connection for
+// someone in the middle
+const SAS_LENGTH = 6;
+const NONCE_BYTES = 32;
+
+const SAS_SYMBOLS: SasSymbol[] = [
+    { emoji: '🐶', name: 'Dog' }, { emoji: '🐱', name: 'Cat' }, { emoji: '🦁', name: 'Lion' }, { emoji: '🐎', name: 'Horse' },
+    { emoji: '🦄', name: 'Unicorn' }, { emoji: '🐷', name: 'Pig' }, { emoji: '🐘', name: 'Elephant' }, { emoji: '🐰', name: 'Rabbit' },
+    { emoji: '🐼', name: 'Panda' }, { emoji: '🐓', name: 'Rooster' }, { emoji: '🐧', name: 'Penguin' }, { emoji: '🐢', name: 'Turtle' },
+    { emoji: '🐟', name: 'Fish' }, { emoji: '🐙', name: 'Octopus' }, { emoji: '🦋', name: 'Butterfly' }, { emoji: '🌷', name: 'Flower' },
+    { emoji: '🌳', name: 'Tree' }, { emoji: '🌵', name: 'Cactus' }, { emoji: '🍄', name: 'Mushroom' }, { emoji: '🌏', name: 'Globe' },
+    { emoji: '🌙', name: 'Moon' }, { emoji: '☁️', name: 'Cloud' }, { emoji: '🔥', name: 'Fire' }, { emoji: '🍌', name: 'Banana' },
+    { emoji: '🍎', name: 'Apple' }, { emoji: '🍓', name: 'Strawberry' }, { emoji: '🌽', name: 'Corn' }, { emoji: '🍕', name: 'Pizza' },
+    { emoji: '🎂', name: 'Cake' }, { emoji: '❤️', name: 'Heart' }, { emoji: '😀', name: 'Smiley' }, { emoji: '🤖', name: 'Robot' },
+    { emoji: '🎩', name: 'Hat' }, { emoji: '👓', name: 'Glasses' }, { emoji: '🔧', name: 'Spanner' }, { emoji: '🎅', name: 'Santa' },
+    { emoji: '👍', name: 'Thumbs Up' }, { emoji: '☂️', name: 'Umbrella' }, { emoji: '⌛', name: 'Hourglass' }, { emoji: '⏰', name: 'Clock' },
+    { emoji: '🎁', name: 'Gift' }, { emoji: '💡', name: 'Light Bulb' }, { emoji: '📕', name: 'Book' }, { emoji: '✏️', name: 'Pencil' },
+    { emoji: '📎', name: 'Paperclip' }, { emoji: '✂️', name: 'Scissors' }, { emoji: '🔒', name: 'Lock' }, { emoji: '🔑', name: 'Key' },
+    { emoji: '🔨', name: 'Hammer' }, { emoji: '☎️', name: 'Telephone' }, { emoji: '🏁', name: 'Flag' }, { emoji: '🚂', name: 'Train' },
+    { emoji: '🚲', name: 'Bicycle' }, { emoji: '✈️', name: 'Aeroplane' }, { emoji: '🚀', name: 'Rocket' }, { emoji: '🏆', name: 'Trophy' },
+    { emoji: '⚽', name: 'Ball' }, { emoji: '🎸', name: 'Guitar' }, { emoji: '🎺', name: 'Trumpet' }, { emoji: '🔔', name: 'Bell' },
+    { emoji: '⚓', name: 'Anchor' }, { emoji: '🎧', name: 'Headphones' }, { emoji: '📁', name: 'Folder' }, { emoji: '📌', name: 'Pin' },
+];
+
+let certificate: Promise<RTCCertificate | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function storeRequest<T>(db: IDBDatabase, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function loadOrCreateCertificate(): Promise<RTCCertificate | null> {
+    if (typeof indexedDB === 'undefined' || typeof RTCPeerConnection?.generateCertificate !== 'function') return null;
+
+    try {
+        const db = await openDatabase();
+        try {
+            const stored = await storeRequest<RTCCertificate | undefined>(db, 'readonly', store => store.get(CERTIFICATE_KEY));
+            if (stored && stored.expires > Date.now() + CERTIFICATE_RENEW_MARGIN_MS) return stored;
+
+            // Not in the DOM types' keygen algorithm, but part of the WebRTC spec
+            const created = await RTCPeerConnection.generateCertificate({
+                name: 'ECDSA',
+                namedCurve: 'P-256',
+                expires: CERTIFICATE_LIFETIME_MS,
+            } as AlgorithmIdentifier);
+            await storeRequest(db, 'readwrite', store => store.put(created, CERTIFICATE_KEY));
+            return created;
+        } finally {
+            db.close();
+        }
+    } catch (error) {
+        // Connections still work on a fresh certificate each; only the badges don't last
+        console.error('[Identity] No persistent device certificate:', error);
+        return null;
+    }
+}
+
+// The certificate every connection from this device should use, or null to
+// let each connection make its own
+export function loadDeviceCertificate(): Promise<RTCCertificate | null> {
+    if (!certificate) certificate = loadOrCreateCertificate();
+    return certificate;
+}
+
+// The DTLS fingerprint in an SDP, e.g. 'sha-256 AB:CD:...', or null if it has none
+export function fingerprintFromSdp(sdp: string | undefined): string | null {
+    const match = sdp?.match(/^a=fingerprint:(\S+) ([0-9A-Fa-f:]+)\s*$/m);
+    return match ? `${match[1].toLowerCase()} ${match[2].toUpperCase()}` : null;
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// A fresh secret for one connection's code
+export function createSasNonce(): string {
+    return toHex(crypto.getRandomValues(new Uint8Array(NONCE_BYTES)));
+}
+
+// Sent first; binds the sender to its nonce without revealing it
+export function sasCommitment(nonce: string): Promise<string> {
+    const input = new TextEncoder().encode(`aeroshare-sas-commit\n${nonce}`);
+    return crypto.subtle.digest('SHA-256', input).then(digest => toHex(new Uint8Array(digest)));
+}
+
+// Whether a revealed nonce is the one committed to earlier
+export async function verifySasReveal(nonce: string, commitment: string): Promise<boolean> {
+    return /^[0-9a-f]+$/.test(nonce) && nonce.length === NONCE_BYTES * 2 && await sasCommitment(nonce) === commitment;
+}
+
+// The same sequence on both ends when they see the same two fingerprints and
+// the same two nonces
+export async function shortAuthString(
+    local: { fingerprint: string; nonce: string },
+    remote: { fingerprint: string; nonce: string },
+): Promise<SasSymbol[]> {
+    // Two tabs of one browser share a certificate, so the nonces break ties
+    const sides = [local, remote].map(side => `${side.fingerprint}\n${side.nonce}`).sort();
+    const input = ['aeroshare-sas', ...sides].join('\n');
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input)));
+
+    const symbols: SasSymbol[] = [];
+    for (let i = 0; i < SAS_LENGTH; i++) {
+        const bit = i * 6;
+        const pair = (digest[bit >> 3] << 8) | digest[(bit >> 3) + 1];
+        symbols.push(SAS_SYMBOLS[(pair >> (10 - (bit & 7))) & 0x3f]);
+    }
+    return symbols;
+}
+
+// Fingerprints of the devices the user has verified, kept across sessions
+export function loadVerifiedFingerprints(): string[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        const stored = JSON.parse(localStorage.getItem(VERIFIED_STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored.filter((value): value is string => typeof value === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveVerifiedFingerprints(fingerprints: string[]): void {
+    try {
+        localStorage.setItem(VERIFIED_STORAGE_KEY, JSON.stringify(fingerprints));
+    } catch (error) {
+        console.error('[Identity] Failed to save verified devices:', error);
+    }
+}
@@ -0,0 +1,66 @@
+// File checksum, sent with `done` so the receiver can tell a corrupt file
+// from a good one. Web Crypto has no streaming digest, so files are hashed
+// in blocks: the checksum is the SHA-256 of every block's SHA-256, in order.
+// Either end can work it out as the bytes go by, holding one block at a
+// time, whatever the file's size.
+
+export const HASH_BLOCK_SIZE = 1024 * 1024;
+
+function toHex(digest: ArrayBuffer): string {
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Fed a file's bytes in order, in pieces of any size
+export class BlockHasher {
+    private block: Uint8Array[] = [];
+    private blockSize = 0;
+    private digests: Promise<ArrayBuffer>[] = [];
+
+    update(bytes: Uint8Array): void {
+        let offset = 0;
+        while (offset < bytes.length) {
+            const take = Math.min(HASH_BLOCK_SIZE - this.blockSize, bytes.length - offset);
+            this.block.push(bytes.subarray(offset, offset + take));
+            this.blockSize += take;
+            offset += take;
+            if (this.blockSize === HASH_BLOCK_SIZE) this.endBlock();
+        }
+    }
+
+    // Call once, after the last update
+    async digest(): Promise<string> {
+        if (this.blockSize > 0) this.endBlock();
+        const digests = await Promise.all(this.digests);
+
+        const joined = new Uint8Array(digests.length * 32);
+        digests.forEach((digest, i) => joined.set(new Uint8Array(digest), i * 32));
+        return toHex(await crypto.subtle.digest('SHA-256', joined));
+    }
+
+    private endBlock(): void {
+        const block = new Uint8Array(this.blockSize);
+        let offset = 0;
+        this.block.forEach((piece) => {
+            block.set(piece, offset);
+            offset += piece.length;
+        });
+
+        this.digests.push(crypto.subtle.digest('SHA-256', block));
+        this.block = [];
+        this.blockSize = 0;
+    }
+}
+
+// The checksum of a whole file, read one block at a time
+export async function hashBlob(data: Blob): Promise<string> {
+    const hasher = new BlockHasher();
+    for (let offset = 0; offset < data.size; offset += HASH_BLOCK_SIZE) {
+        hasher.update(new Uint8Array(await data.slice(offset, offset + HASH_BLOCK_SIZE).arrayBuffer()));
+    }
+    return hasher.digest();
+}
+
+// Anything else a peer puts in `done` is ignored rather than failing the file
+export function isSha256Hex(value: unknown): value is string {
+    return typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+}
@@ -0,0 +1,111 @@
+// Versioning for what peers say to each other over data channels (and
+// announce to the server on join). Bump PROTOCOL_VERSION only for changes an
+// older peer can't ignore; anything optional is a capability, and is used
+// with a peer only when both sides list it.
+import { Capability, PeerProtocol, FileChunk } from '@/types';
+
+export const PROTOCOL_VERSION = 2;
+
+// Peers that never send a hello speak the original, unversioned protocol
+export const LEGACY_PROTOCOL: PeerProtocol = { version: 1, features: [] };
+
+// Everything this client supports
+export const CAPABILITIES: Capability[] = ['relay', 'binary-chunks', 'resume', 'file-offer', 'folders', 'transfer-control', 'striping', 'control-channel', 'verification'];
+
+// With 'control-channel', chat and control messages get a channel of their
+// own so they never wait behind queued file chunks. priority isn't in the DOM
+// types yet; browsers that don't know it ignore it.
+export const CONTROL_CHANNEL_LABEL = 'aeroshare-control';
+export const CONTROL_CHANNEL_OPTIONS = { ordered: true, priority: 'high' } as RTCDataChannelInit;
+
+export function isControlChannel(channel: RTCDataChannel): boolean {
+    return channel.label === CONTROL_CHANNEL_LABEL;
+}
+
+// Highest common version and the features both sides support
+export function negotiateProtocol(version: number | undefined, capabilities: string[] = []): PeerProtocol {
+    return {
+        version: Math.min(PROTOCOL_VERSION, version ?? LEGACY_PROTOCOL.version),
+        features: CAPABILITIES.filter(capability => capabilities.includes(capability)),
+    };
+}
+
+export function hasFeature(protocol: PeerProtocol | undefined, feature: Capability): boolean {
+    return !!protocol?.features.includes(feature);
+}
+
+// How file chunks go on the wire to one peer: binary frames when both sides
+// support them, otherwise base64 inside JSON, which every version understands
+export type ChunkEncoding = 'binary' | 'base64';
+
+export function chunkEncoding(protocol: PeerProtocol): ChunkEncoding {
+    return hasFeature(protocol, 'binary-chunks') ? 'binary' : 'base64';
+}
+
+// Binary chunk frame, sent as an ArrayBuffer (control messages stay JSON strings):
+//   u8 frame version | u8 flags | u8 file id length | file id (UTF-8) | u32 chunk index | data
+const BINARY_FRAME_VERSION = 1;
+const BINARY_HEADER_FIXED = 3 + 4;
+
+export const CHUNK_FLAG_LAST = 0x01; // Final chunk of the file
+
+export interface DecodedChunk {
+    fileId: string;
+    index: number;
+    flags: number;
+    bytes: Uint8Array;
+}
+
+export function encodeChunk(
+    encoding: ChunkEncoding,
+    fileId: string,
+    index: number,
+    bytes: Uint8Array,
+    flags = 0,
+): string | ArrayBuffer {
+    if (encoding === 'base64') {
+        let binary = '';
+        bytes.forEach(byte => binary += String.fromCharCode(byte));
+
+        const message: FileChunk = { type: 'chunk', fileId, index, data: btoa(binary) };
+        return JSON.stringify(message);
+    }
+
+    const id = new TextEncoder().encode(fileId);
+    if (id.length > 255) throw new Error('File id too long for a binary frame');
+
+    const frame = new Uint8Array(BINARY_HEADER_FIXED + id.length + bytes.length);
+    const view = new DataView(frame.buffer);
+    view.setUint8(0, BINARY_FRAME_VERSION);
+    view.setUint8(1, flags);
+    view.setUint8(2, id.length);
+    frame.set(id, 3);
+    view.setUint32(3 + id.length, index);
+    frame.set(bytes, BINARY_HEADER_FIXED + id.length);
+    return frame.buffer;
+}
+
+// Returns null for frames this version can't read
+export function decodeBinaryChunk(buffer: ArrayBuffer): DecodedChunk | null {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < BINARY_HEADER_FIXED || view.getUint8(0) !== BINARY_FRAME_VERSION) return null;
+
+    const idLength = view.getUint8(2);
+    if (buffer.byteLength < BINARY_HEADER_FIXED + idLength) return null;
+
+    return {
+        fileId: new TextDecoder().decode(new Uint8Array(buffer, 3, idLength)),
+        index: view.getUint32(3 + idLength),
+        flags: view.getUint8(1),
+        bytes: new Uint8Array(buffer, BINARY_HEADER_FIXED + idLength),
+    };
+}
+
+export function decodeChunk(message: FileChunk): Uint8Array {
+    const binary = atob(message.data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
@@ -0,0 +1,103 @@
+// End-to-end encryption for transfers relayed through the signaling server.
+// Each side sends an ECDH P-256 public key; both derive the same AES-GCM key,
+// so the server only ever forwards ciphertext. On its own the exchange can't
+// tell a peer's key from one the server swapped in, so in an encrypted room
+// the keys travel sealed with the room key, which the server never sees.
+import { RelayFrame } from '@/types';
+import { LIMITS } from '@shared/validation';
+import { FrameRoute, sealFrame, openFrame } from './roomKey';
+
+// Smaller than P2P chunks so a base64 frame fits in one signaling message
+export const RELAY_CHUNK_SIZE = 48 * 1024;
+// Frames in flight before the sender waits for an ack
+export const RELAY_WINDOW = 8;
+export const RELAY_KEY_TIMEOUT_MS = 10000;
+export const RELAY_ACK_TIMEOUT_MS = 30000;
+// The channel label in a sealed relay key's route
+export const RELAY_KEY_LABEL = 'aeroshare-relay-key';
+
+const ECDH: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const GCM_TAG_BYTES = 16;
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+export function createRelayKeyPair(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey(ECDH, false, ['deriveKey']);
+}
+
+export async function exportRelayKey(publicKey: CryptoKey): Promise<string> {
+    return toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', publicKey)));
+}
+
+export async function deriveRelayKey(privateKey: CryptoKey, peerPublicKey: string): Promise<CryptoKey> {
+    const publicKey = await crypto.subtle.importKey('raw', fromBase64(peerPublicKey) as BufferSource, ECDH, false, []);
+    return crypto.subtle.deriveKey(
+        { name: 'ECDH', public: publicKey },
+        privateKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+}
+
+// An exported public key, sealed for one peer with the room key
+export async function sealRelayKey(roomKey: CryptoKey, publicKey: string, route: FrameRoute): Promise<string> {
+    return toBase64(new Uint8Array(await sealFrame(roomKey, publicKey, route)));
+}
+
+// The public key a peer sealed, or null if it's a replay. Rejects if it
+// wasn't sealed with this room key for this route.
+export async function openRelayKey(roomKey: CryptoKey, sealed: string, route: FrameRoute): Promise<string | null> {
+    const opened = await openFrame(roomKey, fromBase64(sealed).buffer as ArrayBuffer, route);
+    if (opened !== null && typeof opened !== 'string') throw new Error('Relay key is not text');
+    return opened;
+}
+
+// Whether a message fits in one relay frame once encrypted and base64-encoded.
+// The server rejects bigger frames, so e.g. a large folder listing can't be relayed.
+export function fitsRelayFrame(message: string): boolean {
+    const sealedBytes = new TextEncoder().encode(message).length + GCM_TAG_BYTES;
+    return Math.ceil(sealedBytes / 3) * 4 <= LIMITS.relayData;
+}
+
+// Who a relay frame is from and for. Both directions share one key, so
+// without this the server could bounce a peer's frames back to it.
+export type RelayDirection = Pick<FrameRoute, 'senderId' | 'receiverId'>;
+
+// The sequence number and direction are authenticated, so the server can't
+// replay, reorder or reflect frames unnoticed
+function frameData(seq: number, direction: RelayDirection): BufferSource {
+    return new TextEncoder().encode(`aeroshare-relay:${direction.senderId}\n${direction.receiverId}\n${seq}`);
+}
+
+export async function encryptFrame(key: CryptoKey, seq: number, plaintext: string, direction: RelayDirection): Promise<RelayFrame> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: frameData(seq, direction) },
+        key,
+        new TextEncoder().encode(plaintext),
+    );
+    return { seq, iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+}
+
+export async function decryptFrame(key: CryptoKey, frame: RelayFrame, direction: RelayDirection): Promise<string> {
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(frame.iv) as BufferSource, additionalData: frameData(frame.seq, direction) },
+        key,
+        fromBase64(frame.data) as BufferSource,
+    );
+    return new TextDecoder().decode(plaintext);
+}
@@ -0,0 +1,169 @@
+// Optional end-to-end encryption for everything peers send over data
+// channels. The room key is made when the room is created and travels only in
+// the link's #fragment, which browsers never send to the server. DTLS alone
+// can be defeated by a server that swaps the fingerprints in the SDP it
+// forwards; with a room key, whoever ends up on the other end of a channel
+// still can't read or forge a frame without the link.
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const FRAGMENT_PARAM = 'key';
+
+// Sealed frame, always sent as an ArrayBuffer:
+//   u8 frame version | u8 kind | u32 counter | 12-byte IV | AES-GCM ciphertext and tag
+// The version can't be mistaken for a binary chunk frame's. The header is
+// authenticated along with the frame's route, so the kind can't be flipped
+// and a frame can't be replayed, or moved to another channel or peer.
+const SEALED_FRAME_VERSION = 0x80;
+const COUNTER_OFFSET = 2;
+const IV_OFFSET = COUNTER_OFFSET + 4;
+const SEALED_HEADER = IV_OFFSET + IV_BYTES;
+const KIND_TEXT = 0;
+const KIND_BINARY = 1;
+const MAX_COUNTER = 0xffffffff;
+// How far behind the newest counter a frame may arrive. Striped chunks share
+// one counter across several unordered channels, so this covers a few
+// stripe windows' worth.
+const REPLAY_WINDOW = 4096;
+
+export interface RoomKey {
+    encoded: string; // As it appears in the link
+    key: CryptoKey;
+}
+
+// Who a frame is from and for, and the label of the channel it goes on.
+// Each route numbers its frames from 0, and receivers accept each number
+// once. Peer ids last as long as a session, reconnects included, so frames
+// from an earlier connection can't be replayed into a later one.
+export interface FrameRoute {
+    senderId: string;
+    receiverId: string;
+    channel: string;
+}
+
+// Accepts each counter once, as long as it's within REPLAY_WINDOW of the
+// highest seen. Each slot holds the last counter that landed on it.
+class ReplayWindow {
+    private highest = -1;
+    private slots = new Float64Array(REPLAY_WINDOW).fill(-1);
+
+    has(counter: number): boolean {
+        return counter <= this.highest - REPLAY_WINDOW || this.slots[counter % REPLAY_WINDOW] === counter;
+    }
+
+    add(counter: number): void {
+        this.slots[counter % REPLAY_WINDOW] = counter;
+        this.highest = Math.max(this.highest, counter);
+    }
+}
+
+const sendCounters = new Map<string, number>();
+const replayWindows = new Map<string, ReplayWindow>();
+
+function routeKey(route: FrameRoute): string {
+    return [route.senderId, route.receiverId, route.channel].join('\n');
+}
+
+function additionalData(header: Uint8Array, route: FrameRoute): Uint8Array {
+    const routeBytes = new TextEncoder().encode(routeKey(route));
+    const data = new Uint8Array(header.length + routeBytes.length);
+    data.set(header, 0);
+    data.set(routeBytes, header.length);
+    return data;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+export function generateRoomKey(): string {
+    return toBase64Url(crypto.getRandomValues(new Uint8Array(KEY_BYTES)));
+}
+
+// The fragment to append to a room link, '#' included
+export function roomKeyFragment(encoded: string): string {
+    return `#${FRAGMENT_PARAM}=${encoded}`;
+}
+
+// The encoded key from a location.hash, or null if the link has none
+export function roomKeyFromHash(hash: string): string | null {
+    return new URLSearchParams(hash.replace(/^#/, '')).get(FRAGMENT_PARAM) || null;
+}
+
+// Rejects if the link's key is malformed
+export async function importRoomKey(encoded: string): Promise<RoomKey> {
+    const raw = fromBase64Url(encoded);
+    if (raw.length !== KEY_BYTES) throw new Error('Room key has the wrong length');
+    const key = await crypto.subtle.importKey('raw', raw as BufferSource, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    return { encoded, key };
+}
+
+// Whether a received frame was sealed, even without the key to open it
+export function isSealedFrame(data: string | ArrayBuffer): boolean {
+    return typeof data !== 'string' && data.byteLength > SEALED_HEADER && new Uint8Array(data)[0] === SEALED_FRAME_VERSION;
+}
+
+// The counter is taken when this is called, so frames must go out on the
+// route in the order they were sealed
+export async function sealFrame(key: CryptoKey, data: string | ArrayBuffer, route: FrameRoute): Promise<ArrayBuffer> {
+    const counter = sendCounters.get(routeKey(route)) ?? 0;
+    if (counter > MAX_COUNTER) throw new Error('Too many frames on one route');
+    sendCounters.set(routeKey(route), counter + 1);
+
+    const header = new Uint8Array(IV_OFFSET);
+    header[0] = SEALED_FRAME_VERSION;
+    header[1] = typeof data === 'string' ? KIND_TEXT : KIND_BINARY;
+    new DataView(header.buffer).setUint32(COUNTER_OFFSET, counter);
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const plaintext = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: additionalData(header, route) as BufferSource },
+        key,
+        plaintext,
+    );
+
+    const frame = new Uint8Array(SEALED_HEADER + ciphertext.byteLength);
+    frame.set(header, 0);
+    frame.set(iv, IV_OFFSET);
+    frame.set(new Uint8Array(ciphertext), SEALED_HEADER);
+    return frame.buffer;
+}
+
+// The frame as it was sent: a control message string or a binary chunk
+// frame, or null if it's a replay or too old to tell. Rejects if it wasn't
+// sealed with this key for this route, or was tampered with.
+export async function openFrame(key: CryptoKey, frame: ArrayBuffer, route: FrameRoute): Promise<string | ArrayBuffer | null> {
+    if (!isSealedFrame(frame)) throw new Error('Frame is not sealed');
+    const bytes = new Uint8Array(frame);
+    const header = bytes.subarray(0, IV_OFFSET);
+    const counter = new DataView(frame).getUint32(COUNTER_OFFSET);
+
+    let window = replayWindows.get(routeKey(route));
+    if (window?.has(counter)) return null;
+
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: bytes.subarray(IV_OFFSET, SEALED_HEADER), additionalData: additionalData(header, route) as BufferSource },
+        key,
+        bytes.subarray(SEALED_HEADER),
+    );
+
+    // Only authentic frames count, and another copy may have been opened meanwhile
+    window = replayWindows.get(routeKey(route)) ?? new ReplayWindow();
+    replayWindows.set(routeKey(route), window);
+    if (window.has(counter)) return null;
+    window.add(counter);
+
+    return header[1] === KIND_TEXT ? new TextDecoder().decode(plaintext) : plaintext;
+}
@@ -0,0 +1,429 @@
+// Where an incoming file's bytes go as they arrive. Small files stay in
+// memory; larger ones are written to a file the user picks, to the Origin
+// Private File System, or (where neither works) streamed to a download
+// through the service worker, so the tab never holds the whole file.
+// Folders are split back into their files, either into a directory the user
+// picks or into a zip written through one of the sinks above.
+import { FileMetadata, FolderEntry } from '@/types';
+import { ZipWriter, zipSize } from './zip';
+
+export type SinkKind = 'memory' | 'file' | 'opfs' | 'download';
+
+export interface FileSink {
+    readonly kind: SinkKind;
+    write(chunk: Uint8Array): Promise<void>;
+    // Resolves with the finished file where the page can still read it;
+    // a streamed download is already in the browser's hands
+    close(): Promise<Blob | undefined>;
+    abort(): Promise<void>;
+}
+
+// Files up to this size are buffered in memory
+export const MEMORY_SINK_LIMIT = Number(process.env.NEXT_PUBLIC_MEMORY_SINK_LIMIT_MB || 256) * 1024 * 1024;
+
+const INCOMING_DIRECTORY = 'aeroshare-incoming';
+const LOCK_PREFIX = 'aeroshare-incoming:';
+const SERVICE_WORKER_URL = '/aeroshare-sw.js';
+const DOWNLOAD_PATH = '/aeroshare-download/';
+
+// Not in TypeScript's DOM types yet
+type SaveFilePicker = (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+type DirectoryPicker = (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+class MemorySink implements FileSink {
+    readonly kind = 'memory';
+    private chunks: Uint8Array[] = [];
+
+    constructor(private mime: string) {}
+
+    async write(chunk: Uint8Array): Promise<void> {
+        this.chunks.push(chunk);
+    }
+
+    async close(): Promise<Blob> {
+        const blob = new Blob(this.chunks as BlobPart[], { type: this.mime });
+        this.chunks = [];
+        return blob;
+    }
+
+    async abort(): Promise<void> {
+        this.chunks = [];
+    }
+}
+
+// A file on disk, either one the user picked or one in OPFS
+class WritableSink implements FileSink {
+    constructor(
+        readonly kind: 'file' | 'opfs',
+        private handle: FileSystemFileHandle,
+        private writable: FileSystemWritableFileStream,
+        private mime: string,
+        private onAbort?: () => Promise<void>,
+    ) {}
+
+    async write(chunk: Uint8Array): Promise<void> {
+        await this.writable.write(chunk as BufferSource);
+    }
+
+    // The result is backed by the file on disk, not loaded into memory
+    async close(): Promise<Blob> {
+        await this.writable.close();
+        return new Blob([await this.handle.getFile()], { type: this.mime });
+    }
+
+    async abort(): Promise<void> {
+        await this.writable.abort().catch(() => undefined);
+        await this.onAbort?.();
+    }
+}
+
+// Feeds a download the service worker serves as a stream
+class DownloadSink implements FileSink {
+    readonly kind = 'download';
+    private acked: (() => void) | null = null;
+    private failure: Error | null = null;
+
+    constructor(private port: MessagePort) {
+        port.onmessage = ({ data }) => {
+            if (data?.cancelled) this.failure = new Error('The download was cancelled');
+            if (data?.ack || data?.cancelled) {
+                const acked = this.acked;
+                this.acked = null;
+                acked?.();
+            }
+        };
+    }
+
+    // Resolves once the worker has room for more, so a download that saves
+    // slowly holds back the transfer instead of piling up in the worker
+    async write(chunk: Uint8Array): Promise<void> {
+        if (this.failure) throw this.failure;
+        const copy = chunk.slice();
+        const acked = new Promise<void>((resolve) => {
+            this.acked = resolve;
+        });
+        this.port.postMessage({ chunk: copy }, [copy.buffer]);
+        await acked;
+        if (this.failure) throw this.failure;
+    }
+
+    async close(): Promise<undefined> {
+        this.port.postMessage({ done: true });
+        this.port.close();
+        return undefined;
+    }
+
+    async abort(): Promise<void> {
+        this.port.postMessage({ abort: true });
+        this.port.close();
+    }
+}
+
+// Pick a sink for an accepted file. With interactive set, this must be
+// called straight from a click, since the save dialog needs a user gesture.
+// Rejects with an AbortError if the user cancels that dialog.
+export async function openSink(metadata: FileMetadata, { interactive }: { interactive: boolean }): Promise<FileSink> {
+    const mime = metadata.mime || 'application/octet-stream';
+    if (metadata.size <= MEMORY_SINK_LIMIT) return new MemorySink(mime);
+
+    const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+    if (interactive && picker) {
+        try {
+            const handle = await picker({ suggestedName: metadata.filename });
+            return new WritableSink('file', handle, await handle.createWritable(), mime);
+        } catch (error) {
+            if ((error as Error)?.name === 'AbortError') throw error;
+            console.warn('[Sinks] Save dialog failed, trying the next option:', error);
+        }
+    }
+
+    try {
+        return await openOpfsSink(metadata, mime);
+    } catch (error) {
+        console.warn('[Sinks] OPFS unavailable, trying the next option:', error);
+    }
+
+    try {
+        return await openDownloadSink(metadata, mime);
+    } catch (error) {
+        console.warn('[Sinks] Streaming download unavailable, buffering in memory:', error);
+    }
+
+    return new MemorySink(mime);
+}
+
+// Each tab writes to its own OPFS directory, named after a Web Lock it holds
+// until it closes, so cleanup can tell abandoned directories from live ones
+let tabDirectory: Promise<FileSystemDirectoryHandle> | null = null;
+
+function getTabDirectory(): Promise<FileSystemDirectoryHandle> {
+    if (!tabDirectory) {
+        tabDirectory = (async () => {
+            const tabId = crypto.randomUUID();
+            await new Promise<void>((resolve) => {
+                navigator.locks.request(LOCK_PREFIX + tabId, () => {
+                    resolve();
+                    return new Promise<never>(() => {}); // Held for the life of the tab
+                });
+            });
+            const root = await navigator.storage.getDirectory();
+            const incoming = await root.getDirectoryHandle(INCOMING_DIRECTORY, { create: true });
+            return incoming.getDirectoryHandle(tabId, { create: true });
+        })();
+        tabDirectory.catch(() => { tabDirectory = null; });
+    }
+    return tabDirectory;
+}
+
+async function openOpfsSink(metadata: FileMetadata, mime: string): Promise<FileSink> {
+    const directory = await getTabDirectory();
+    const handle = await directory.getFileHandle(metadata.id, { create: true });
+    const writable = await handle.createWritable();
+    return new WritableSink('opfs', handle, writable, mime, () => directory.removeEntry(metadata.id));
+}
+
+// Remove files left in OPFS by tabs that have since closed
+export async function clearAbandonedFiles(): Promise<void> {
+    if (!navigator.storage?.getDirectory || !navigator.locks) return;
+
+    try {
+        const root = await navigator.storage.getDirectory();
+        const incoming = await root.getDirectoryHandle(INCOMING_DIRECTORY, { create: true });
+        const { held = [] } = await navigator.locks.query();
+        const live = new Set(held.map(lock => lock.name));
+
+        // Directory iteration isn't in the DOM lib this project builds against
+        const names = (incoming as unknown as { keys(): AsyncIterable<string> }).keys();
+        for await (const name of names) {
+            if (!live.has(LOCK_PREFIX + name)) {
+                await incoming.removeEntry(name, { recursive: true });
+            }
+        }
+    } catch (error) {
+        console.warn('[Sinks] Failed to clear abandoned files:', error);
+    }
+}
+
+async function getServiceWorker(): Promise<ServiceWorker> {
+    if (!('serviceWorker' in navigator)) throw new Error('Service workers are not supported');
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    const registration = await navigator.serviceWorker.ready;
+    if (!registration.active) throw new Error('Service worker is not active');
+    return registration.active;
+}
+
+async function openDownloadSink(metadata: FileMetadata, mime: string): Promise<FileSink> {
+    const worker = await getServiceWorker();
+    const channel = new MessageChannel();
+    const id = crypto.randomUUID();
+
+    // Wait until the worker is ready to serve the URL before navigating to it
+    await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('Service worker did not answer')), 5000);
+        channel.port1.onmessage = (event) => {
+            if (event.data?.ready) {
+                clearTimeout(timer);
+                resolve();
+            }
+        };
+        worker.postMessage({
+            type: 'aeroshare-download',
+            id,
+            filename: metadata.filename,
+            mime,
+            size: metadata.size,
+            port: channel.port2,
+        }, [channel.port2]);
+    });
+    channel.port1.onmessage = null;
+
+    const frame = document.createElement('iframe');
+    frame.hidden = true;
+    frame.src = DOWNLOAD_PATH + id;
+    document.body.appendChild(frame);
+    // The download keeps going once started; the frame is only the trigger
+    setTimeout(() => frame.remove(), 60000);
+
+    return new DownloadSink(channel.port1);
+}
+
+// Where a folder's files go, one at a time
+interface FolderTarget {
+    readonly kind: SinkKind;
+    startEntry(entry: FolderEntry): Promise<void>;
+    write(chunk: Uint8Array): Promise<void>;
+    finishEntry(): Promise<void>;
+    close(): Promise<Blob | undefined>;
+    abort(): Promise<void>;
+}
+
+// Cuts a folder's byte stream at the boundaries its listing gives
+class FolderSink implements FileSink {
+    private index = 0;
+    private remaining = 0;
+    private open = false;
+
+    constructor(private entries: FolderEntry[], private target: FolderTarget) {}
+
+    get kind(): SinkKind {
+        return this.target.kind;
+    }
+
+    // Empty files have no bytes to trigger them, so they are written as soon
+    // as the stream reaches them
+    private async skipEmpty(): Promise<void> {
+        while (!this.open && this.index < this.entries.length && this.entries[this.index].size === 0) {
+            await this.target.startEntry(this.entries[this.index++]);
+            await this.target.finishEntry();
+        }
+    }
+
+    async write(chunk: Uint8Array): Promise<void> {
+        let offset = 0;
+        while (offset < chunk.length) {
+            await this.skipEmpty();
+            if (!this.open) {
+                if (this.index >= this.entries.length) throw new Error('Folder data runs past its listing');
+                const entry = this.entries[this.index++];
+                await this.target.startEntry(entry);
+                this.open = true;
+                this.remaining = entry.size;
+            }
+
+            const take = Math.min(this.remaining, chunk.length - offset);
+            await this.target.write(chunk.subarray(offset, offset + take));
+            offset += take;
+            this.remaining -= take;
+            if (this.remaining === 0) {
+                await this.target.finishEntry();
+                this.open = false;
+            }
+        }
+    }
+
+    async close(): Promise<Blob | undefined> {
+        await this.skipEmpty();
+        if (this.open || this.index < this.entries.length) throw new Error('Folder data ended before its listing');
+        return this.target.close();
+    }
+
+    abort(): Promise<void> {
+        return this.target.abort();
+    }
+}
+
+// The folder recreated inside a directory the user picked
+class DirectoryTarget implements FolderTarget {
+    readonly kind = 'file';
+    private writable: FileSystemWritableFileStream | null = null;
+
+    private constructor(private parent: FileSystemDirectoryHandle, private name: string, private root: FileSystemDirectoryHandle) {}
+
+    // Never merges into an existing folder: "name (1)", "name (2)"... instead
+    static async create(parent: FileSystemDirectoryHandle, name: string): Promise<DirectoryTarget> {
+        for (let attempt = 0; attempt < 100; attempt++) {
+            const candidate = attempt === 0 ? name : `${name} (${attempt})`;
+            try {
+                await parent.getDirectoryHandle(candidate);
+            } catch (error) {
+                if ((error as Error)?.name !== 'NotFoundError') throw error;
+                const root = await parent.getDirectoryHandle(candidate, { create: true });
+                return new DirectoryTarget(parent, candidate, root);
+            }
+        }
+        throw new Error(`Could not find a free name for ${name}`);
+    }
+
+    async startEntry(entry: FolderEntry): Promise<void> {
+        const parts = entry.path.split('/');
+        const filename = parts.pop()!;
+        let directory = this.root;
+        for (const part of parts) {
+            directory = await directory.getDirectoryHandle(part, { create: true });
+        }
+        const handle = await directory.getFileHandle(filename, { create: true });
+        this.writable = await handle.createWritable();
+    }
+
+    async write(chunk: Uint8Array): Promise<void> {
+        await this.writable!.write(chunk as BufferSource);
+    }
+
+    async finishEntry(): Promise<void> {
+        await this.writable!.close();
+        this.writable = null;
+    }
+
+    // The files stay where they are; there's no single blob to hand back
+    async close(): Promise<undefined> {
+        return undefined;
+    }
+
+    async abort(): Promise<void> {
+        await this.writable?.abort().catch(() => undefined);
+        this.writable = null;
+        await this.parent.removeEntry(this.name, { recursive: true }).catch(() => undefined);
+    }
+}
+
+// The folder written as a zip through an ordinary sink
+class ZipTarget implements FolderTarget {
+    private zip = new ZipWriter();
+
+    constructor(private sink: FileSink) {}
+
+    get kind(): SinkKind {
+        return this.sink.kind;
+    }
+
+    startEntry(entry: FolderEntry): Promise<void> {
+        return this.sink.write(this.zip.startEntry(entry.path));
+    }
+
+    write(chunk: Uint8Array): Promise<void> {
+        return this.sink.write(this.zip.entryData(chunk));
+    }
+
+    finishEntry(): Promise<void> {
+        return this.sink.write(this.zip.finishEntry());
+    }
+
+    async close(): Promise<Blob | undefined> {
+        await this.sink.write(this.zip.finish());
+        return this.sink.close();
+    }
+
+    abort(): Promise<void> {
+        return this.sink.abort();
+    }
+}
+
+// Pick a sink for an accepted folder. With interactive set, call it straight
+// from a click: the user is asked for a directory to save it in, and
+// cancelling that rejects with an AbortError. Otherwise, or without a
+// directory picker, the folder is saved as a zip.
+export async function openFolderSink(metadata: FileMetadata, { interactive }: { interactive: boolean }): Promise<FileSink> {
+    const entries = metadata.entries ?? [];
+
+    const picker = (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+    if (interactive && picker) {
+        try {
+            const parent = await picker({ mode: 'readwrite' });
+            return new FolderSink(entries, await DirectoryTarget.create(parent, metadata.filename));
+        } catch (error) {
+            if ((error as Error)?.name === 'AbortError') throw error;
+            console.warn('[Sinks] Directory dialog failed, saving as a zip:', error);
+        }
+    }
+
+    // Entries sit under the folder's name, so the zip unpacks into one folder
+    const zipped = entries.map(entry => ({ ...entry, path: `${metadata.filename}/${entry.path}` }));
+    const size = zipSize(zipped);
+    if (size === null) throw new Error('Folder is too large to save as a zip');
+
+    const sink = await openSink(
+        { ...metadata, filename: `${metadata.filename}.zip`, mime: 'application/zip', size },
+        { interactive },
+    );
+    return new FolderSink(zipped, new ZipTarget(sink));
+}
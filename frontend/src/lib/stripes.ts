@@ -0,0 +1,146 @@
+// Extra data channels for one large file going to one peer. A single ordered
+// SCTP stream caps throughput on fast links, so chunks are spread over
+// several unordered (but still reliable) channels and the receiver puts them
+// back in order by index. The set starts small and keeps adding channels
+// while each one still makes the transfer measurably faster.
+
+export const STRIPE_LABEL = 'aeroshare-stripe';
+// Smaller files aren't worth the extra channels
+export const STRIPE_MIN_SIZE = 16 * 1024 * 1024;
+// How many chunks a striped sender may run ahead of the receiver's last ack;
+// also bounds what the receiver holds while waiting for a gap to fill
+export const STRIPE_WINDOW = 256;
+
+const INITIAL_STRIPES = 2;
+const MAX_STRIPES = 8;
+// Throughput is measured over this long before deciding to add a channel
+const ADAPT_INTERVAL_MS = 2000;
+// A new channel must raise throughput by this much to be worth another
+const MIN_GAIN = 0.1;
+const OPEN_TIMEOUT_MS = 5000;
+// Per channel, lower than the main channel's since the load is shared
+const STRIPE_HIGH_WATER = 1024 * 1024;
+const STRIPE_LOW_WATER = 256 * 1024;
+
+export function isStripeChannel(channel: RTCDataChannel): boolean {
+    return channel.label === STRIPE_LABEL;
+}
+
+function openChannel(connection: RTCPeerConnection): Promise<RTCDataChannel> {
+    const channel = connection.createDataChannel(STRIPE_LABEL, { ordered: false });
+    channel.binaryType = 'arraybuffer';
+    channel.bufferedAmountLowThreshold = STRIPE_LOW_WATER;
+
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            channel.close();
+            reject(new Error('Stripe channel did not open'));
+        }, OPEN_TIMEOUT_MS);
+        channel.onopen = () => {
+            clearTimeout(timer);
+            resolve(channel);
+        };
+        channel.onerror = () => {
+            clearTimeout(timer);
+            reject(new Error('Stripe channel failed to open'));
+        };
+    });
+}
+
+// Resolves once any of the channels has room; rejects if one closes first
+function waitForRoom(channels: RTCDataChannel[]): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        const cleanup = () => channels.forEach((channel) => {
+            channel.removeEventListener('bufferedamountlow', onLow);
+            channel.removeEventListener('close', onClose);
+        });
+        const onLow = () => {
+            cleanup();
+            resolve();
+        };
+        const onClose = () => {
+            cleanup();
+            reject(new Error('Data channel closed'));
+        };
+
+        channels.forEach((channel) => {
+            channel.addEventListener('bufferedamountlow', onLow);
+            channel.addEventListener('close', onClose);
+        });
+    });
+}
+
+export class StripeSet {
+    private channels: RTCDataChannel[] = [];
+    private opening: Promise<void> | null = null;
+    private growing = true;
+    private lastCheck = { time: 0, bytes: 0 };
+    private lastRate = 0;
+
+    private constructor(private connection: RTCPeerConnection) {}
+
+    // Null if not even one channel would open; the caller then sends over
+    // the main channel as usual
+    static async open(connection: RTCPeerConnection): Promise<StripeSet | null> {
+        const set = new StripeSet(connection);
+        const results = await Promise.allSettled(Array.from({ length: INITIAL_STRIPES }, () => openChannel(connection)));
+        results.forEach((result) => {
+            if (result.status === 'fulfilled') set.channels.push(result.value);
+        });
+        return set.channels.length > 0 ? set : null;
+    }
+
+    get size(): number {
+        return this.channels.length;
+    }
+
+    // Called with the bytes the peer has confirmed so far. Adds a channel
+    // while the last one paid off, and stops growing once one doesn't.
+    adapt(confirmedBytes: number, now = Date.now()): void {
+        const elapsed = now - this.lastCheck.time;
+        if (elapsed < ADAPT_INTERVAL_MS) return;
+
+        const started = this.lastCheck.time > 0;
+        const rate = (confirmedBytes - this.lastCheck.bytes) / elapsed;
+        this.lastCheck = { time: now, bytes: confirmedBytes };
+        if (!started || !this.growing || this.opening) return;
+
+        if (this.channels.length >= MAX_STRIPES || (this.lastRate > 0 && rate < this.lastRate * (1 + MIN_GAIN))) {
+            this.growing = false;
+            return;
+        }
+
+        this.lastRate = rate;
+        this.opening = openChannel(this.connection)
+            .then((channel) => {
+                this.channels.push(channel);
+            }, () => {
+                this.growing = false;
+            })
+            .finally(() => {
+                this.opening = null;
+            });
+    }
+
+    // Send a binary chunk frame on whichever channel has the least queued
+    async send(frame: ArrayBuffer): Promise<void> {
+        for (;;) {
+            const open = this.channels.filter(channel => channel.readyState === 'open');
+            if (open.length === 0) throw new Error('Data channel closed');
+
+            const channel = open.reduce((best, candidate) => candidate.bufferedAmount < best.bufferedAmount ? candidate : best);
+            if (channel.bufferedAmount <= STRIPE_HIGH_WATER) {
+                channel.send(frame);
+                return;
+            }
+            await waitForRoom(open);
+        }
+    }
+
+    // Only once the peer has confirmed everything, or the transfer is over;
+    // anything still queued is dropped
+    close(): void {
+        this.channels.forEach(channel => channel.close());
+        this.channels = [];
+    }
+}
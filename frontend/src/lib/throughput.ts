@@ -0,0 +1,32 @@
+// Transfer speed for progress readouts, measured over the last few seconds
+// so it follows changes in the connection without jumping about every chunk.
+
+const WINDOW_MS = 5000;
+
+export class ThroughputMeter {
+    private samples: { time: number; bytes: number }[] = [];
+
+    // Record how many bytes have moved so far; returns bytes per second
+    update(bytes: number, now = Date.now()): number {
+        this.samples.push({ time: now, bytes });
+        // Keep one sample at or before the start of the window
+        while (this.samples.length > 2 && now - this.samples[1].time >= WINDOW_MS) {
+            this.samples.shift();
+        }
+
+        const first = this.samples[0];
+        const elapsed = (now - first.time) / 1000;
+        return elapsed > 0 ? Math.max(0, (bytes - first.bytes) / elapsed) : 0;
+    }
+}
+
+// Seconds left at the given rate, or null while nothing is moving
+export function etaSeconds(remainingBytes: number, bytesPerSecond: number): number | null {
+    if (remainingBytes <= 0) return 0;
+    return bytesPerSecond > 0 ? remainingBytes / bytesPerSecond : null;
+}
+
+// Whole percent done; an empty file is done as soon as it starts
+export function progressPercent(doneBytes: number, totalBytes: number): number {
+    return totalBytes > 0 ? Math.round((doneBytes / totalBytes) * 100) : 100;
+}
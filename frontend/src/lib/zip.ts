@@ -0,0 +1,161 @@
+// Just enough of the ZIP format to stream a received folder into one file:
+// entries are stored uncompressed, and each entry's CRC and sizes follow its
+// data in a descriptor, so nothing has to be known before the bytes arrive.
+// No ZIP64, so the whole archive must stay under 4 GB.
+
+const LOCAL_HEADER_SIZE = 30;
+const DATA_DESCRIPTOR_SIZE = 16;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_DIRECTORY_SIZE = 22;
+
+const VERSION = 20; // 2.0: stored entries with data descriptors
+const FLAGS = 0x0808; // Bit 3: data descriptor follows; bit 11: UTF-8 names
+const MAX_32 = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export class Crc32 {
+    private crc = 0xffffffff;
+
+    update(bytes: Uint8Array): void {
+        let crc = this.crc;
+        for (let i = 0; i < bytes.length; i++) {
+            crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+        }
+        this.crc = crc;
+    }
+
+    digest(): number {
+        return (this.crc ^ 0xffffffff) >>> 0;
+    }
+}
+
+// Size of the archive for these entries, or null if it would need ZIP64
+export function zipSize(entries: { path: string; size: number }[]): number | null {
+    if (entries.length > MAX_ENTRIES) return null;
+
+    const encoder = new TextEncoder();
+    let size = END_OF_DIRECTORY_SIZE;
+    for (const entry of entries) {
+        const nameLength = encoder.encode(entry.path).length;
+        size += LOCAL_HEADER_SIZE + nameLength + entry.size + DATA_DESCRIPTOR_SIZE + CENTRAL_HEADER_SIZE + nameLength;
+    }
+    return size <= MAX_32 ? size : null;
+}
+
+interface CentralRecord {
+    name: Uint8Array;
+    crc: number;
+    size: number;
+    offset: number;
+}
+
+// Produces the archive as a sequence of byte arrays for the caller to write
+export class ZipWriter {
+    private records: CentralRecord[] = [];
+    private offset = 0;
+    private current: { name: Uint8Array; crc: Crc32; size: number; offset: number } | null = null;
+    private readonly time: number;
+    private readonly date: number;
+
+    constructor(modified = new Date()) {
+        // MS-DOS format, local time, two-second resolution
+        this.time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1);
+        this.date = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+    }
+
+    startEntry(path: string): Uint8Array {
+        if (this.current) throw new Error('Previous zip entry was not finished');
+
+        const name = new TextEncoder().encode(path);
+        const header = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+        const view = new DataView(header.buffer);
+        view.setUint32(0, 0x04034b50, true);
+        view.setUint16(4, VERSION, true);
+        view.setUint16(6, FLAGS, true);
+        view.setUint16(8, 0, true); // Stored
+        view.setUint16(10, this.time, true);
+        view.setUint16(12, this.date, true);
+        // CRC and sizes (14-25) are zero here and come in the descriptor
+        view.setUint16(26, name.length, true);
+        view.setUint16(28, 0, true);
+        header.set(name, LOCAL_HEADER_SIZE);
+
+        this.current = { name, crc: new Crc32(), size: 0, offset: this.offset };
+        this.offset += header.length;
+        return header;
+    }
+
+    // Returns the data unchanged; it goes into the archive as is
+    entryData(bytes: Uint8Array): Uint8Array {
+        if (!this.current) throw new Error('No zip entry is open');
+        this.current.crc.update(bytes);
+        this.current.size += bytes.length;
+        this.offset += bytes.length;
+        return bytes;
+    }
+
+    finishEntry(): Uint8Array {
+        if (!this.current) throw new Error('No zip entry is open');
+        const { name, crc, size, offset } = this.current;
+        this.current = null;
+
+        const record: CentralRecord = { name, crc: crc.digest(), size, offset };
+        this.records.push(record);
+
+        const descriptor = new Uint8Array(DATA_DESCRIPTOR_SIZE);
+        const view = new DataView(descriptor.buffer);
+        view.setUint32(0, 0x08074b50, true);
+        view.setUint32(4, record.crc, true);
+        view.setUint32(8, size, true);
+        view.setUint32(12, size, true);
+        this.offset += descriptor.length;
+        return descriptor;
+    }
+
+    // Central directory and end record, written once every entry is done
+    finish(): Uint8Array {
+        if (this.current) throw new Error('Last zip entry was not finished');
+
+        const directorySize = this.records.reduce((sum, record) => sum + CENTRAL_HEADER_SIZE + record.name.length, 0);
+        const output = new Uint8Array(directorySize + END_OF_DIRECTORY_SIZE);
+        const view = new DataView(output.buffer);
+
+        let position = 0;
+        for (const record of this.records) {
+            view.setUint32(position, 0x02014b50, true);
+            view.setUint16(position + 4, VERSION, true);
+            view.setUint16(position + 6, VERSION, true);
+            view.setUint16(position + 8, FLAGS, true);
+            view.setUint16(position + 10, 0, true);
+            view.setUint16(position + 12, this.time, true);
+            view.setUint16(position + 14, this.date, true);
+            view.setUint32(position + 16, record.crc, true);
+            view.setUint32(position + 20, record.size, true);
+            view.setUint32(position + 24, record.size, true);
+            view.setUint16(position + 28, record.name.length, true);
+            // Extra field, comment, disk number and attributes (30-41) stay zero
+            view.setUint32(position + 42, record.offset, true);
+            output.set(record.name, position + CENTRAL_HEADER_SIZE);
+            position += CENTRAL_HEADER_SIZE + record.name.length;
+        }
+
+        view.setUint32(position, 0x06054b50, true);
+        view.setUint16(position + 8, this.records.length, true);
+        view.setUint16(position + 10, this.records.length, true);
+        view.setUint32(position + 12, directorySize, true);
+        view.setUint32(position + 16, this.offset, true);
+        return output;
+    }
+}
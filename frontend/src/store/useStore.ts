@@ -4,7 +4,15 @@ import {
     ChatMessage,
     FileTransfer,
     PeerConnection,
+    SignalingError,
+    RoomState,
+    PeerLeftReason,
+    LobbyEntry,
+    LobbyStatus,
+    FolderEntry,
 } from '@/types';
+import { RoomKey } from '@/lib/roomKey';
+import { loadVerifiedFingerprints, saveVerifiedFingerprints } from '@/lib/identity';
 
 export interface LogEntry {
     id: string;
@@ -13,22 +21,52 @@ export interface LogEntry {
     message: string;
 }
 
+// A file or folder waiting for a free send slot; its transfer is already in
+// the feed as queued
+export interface QueuedSend {
+    id: string; // Also the transfer's id
+    source: Blob;
+    name: string;
+    mime: string;
+    entries?: FolderEntry[]; // Only for a folder
+    targetPeerId?: string; // Everyone when unset
+}
+
+// How many files are sent at once; the rest wait their turn
+export const DEFAULT_SEND_CONCURRENCY = Number(process.env.NEXT_PUBLIC_SEND_CONCURRENCY || 2);
+
 interface AppState {
     // Connection state
     peerId: string | null;
     username: string;
     roomId: string | null;
     isConnected: boolean;
+    joinError: SignalingError | null;
+    notice: SignalingError | null; // Server-side limit hit, shown until dismissed
+    relayAvailable: boolean; // The server relays transfers when P2P fails
+    roomKey: RoomKey | null; // From the room link; seals everything on data channels
+    roomPasswords: Record<string, string>; // By room ID; in memory only, so a reload asks again
+
+    // Room moderation
+    roomState: RoomState;
+    removedReason: PeerLeftReason | null;
+
+    // Lobby
+    lobbyStatus: LobbyStatus | null;
+    knocks: LobbyEntry[];
 
     // Peers
     peers: PeerInfo[];
     peerConnections: Map<string, PeerConnection>;
+    verifiedFingerprints: string[]; // Devices the user has verified, across sessions
 
     // Chat
     messages: ChatMessage[];
 
     // File transfers
     transfers: FileTransfer[];
+    sendQueue: QueuedSend[];
+    sendConcurrency: number;
 
     // Logs
     logs: LogEntry[];
@@ -38,6 +76,18 @@ interface AppState {
     setUsername: (name: string) => void;
     setRoomId: (id: string | null) => void;
     setConnected: (connected: boolean) => void;
+    setJoinError: (error: SignalingError | null) => void;
+    setNotice: (notice: SignalingError | null) => void;
+    setRelayAvailable: (available: boolean) => void;
+    setRoomKey: (roomKey: RoomKey | null) => void;
+    setRoomPassword: (roomId: string, password: string | null) => void;
+    setRoomState: (state: RoomState) => void;
+    setRemovedReason: (reason: PeerLeftReason | null) => void;
+
+    // Lobby actions
+    setLobbyStatus: (status: LobbyStatus | null) => void;
+    addKnock: (entry: LobbyEntry) => void;
+    removeKnock: (peerId: string) => void;
 
     // Peer actions
     setPeers: (peers: PeerInfo[]) => void;
@@ -46,6 +96,7 @@ interface AppState {
     setPeerConnection: (peerId: string, connection: PeerConnection) => void;
     removePeerConnection: (peerId: string) => void;
     updatePeerConnection: (peerId: string, updates: Partial<PeerConnection>) => void;
+    setFingerprintVerified: (fingerprint: string, verified: boolean) => void;
 
     // Chat actions
     addMessage: (message: ChatMessage) => void;
@@ -56,6 +107,9 @@ interface AppState {
     updateTransfer: (id: string, updates: Partial<FileTransfer>) => void;
     removeTransfer: (id: string) => void;
     clearTransfers: () => void;
+    enqueueSend: (item: QueuedSend) => void;
+    removeQueuedSend: (id: string) => void;
+    setSendConcurrency: (concurrency: number) => void;
 
     // Log actions
     addLog: (level: LogEntry['level'], message: string) => void;
@@ -70,10 +124,22 @@ const initialState = {
     username: '',
     roomId: null,
     isConnected: false,
+    joinError: null,
+    notice: null,
+    relayAvailable: false,
+    roomKey: null,
+    roomPasswords: {},
+    roomState: { locked: false, lobby: false },
+    removedReason: null,
+    lobbyStatus: null,
+    knocks: [],
     peers: [],
     peerConnections: new Map(),
+    verifiedFingerprints: loadVerifiedFingerprints(),
     messages: [],
     transfers: [],
+    sendQueue: [],
+    sendConcurrency: DEFAULT_SEND_CONCURRENCY,
     logs: [],
 };
 
@@ -84,6 +150,28 @@ export const useStore = create<AppState>((set, get) => ({
     setUsername: (name) => set({ username: name }),
     setRoomId: (id) => set({ roomId: id }),
     setConnected: (connected) => set({ isConnected: connected }),
+    setJoinError: (error) => set({ joinError: error }),
+    setNotice: (notice) => set({ notice }),
+    setRelayAvailable: (available) => set({ relayAvailable: available }),
+    setRoomKey: (roomKey) => set({ roomKey }),
+    setRoomPassword: (roomId, password) => set((state) => {
+        const roomPasswords = { ...state.roomPasswords };
+        if (password) roomPasswords[roomId] = password;
+        else delete roomPasswords[roomId];
+        return { roomPasswords };
+    }),
+    setRoomState: (roomState) => set({ roomState }),
+    setRemovedReason: (reason) => set({ removedReason: reason }),
+
+    setLobbyStatus: (status) => set({ lobbyStatus: status }),
+
+    addKnock: (entry) => set((state) => ({
+        knocks: [...state.knocks.filter(k => k.peerId !== entry.peerId), entry],
+    })),
+
+    removeKnock: (peerId) => set((state) => ({
+        knocks: state.knocks.filter(k => k.peerId !== peerId),
+    })),
 
     setPeers: (peers) => set({ peers }),
 
@@ -105,6 +193,7 @@ export const useStore = create<AppState>((set, get) => ({
         const newMap = new Map(state.peerConnections);
         const pc = newMap.get(peerId);
         if (pc) {
+            pc.controlChannel?.close();
             pc.dataChannel?.close();
             pc.connection.close();
         }
@@ -121,6 +210,13 @@ export const useStore = create<AppState>((set, get) => ({
         return { peerConnections: newMap };
     }),
 
+    setFingerprintVerified: (fingerprint, verified) => set((state) => {
+        const others = state.verifiedFingerprints.filter(f => f !== fingerprint);
+        const verifiedFingerprints = verified ? [...others, fingerprint] : others;
+        saveVerifiedFingerprints(verifiedFingerprints);
+        return { verifiedFingerprints };
+    }),
+
     addMessage: (message) => set((state) => ({
         messages: [...state.messages, message],
     })),
@@ -143,13 +239,25 @@ export const useStore = create<AppState>((set, get) => ({
 
     clearTransfers: () => set({ transfers: [] }),
 
+    enqueueSend: (item) => set((state) => ({
+        sendQueue: [...state.sendQueue, item],
+    })),
+
+    removeQueuedSend: (id) => set((state) => ({
+        sendQueue: state.sendQueue.filter(item => item.id !== id),
+    })),
+
+    setSendConcurrency: (concurrency) => set({ sendConcurrency: Math.max(1, Math.floor(concurrency)) }),
+
     reset: () => {
         const { peerConnections } = get();
         peerConnections.forEach(pc => {
+            pc.controlChannel?.close();
             pc.dataChannel?.close();
             pc.connection.close();
         });
-        set({ ...initialState, peerConnections: new Map() });
+        // Verified devices outlast the room
+        set({ ...initialState, peerConnections: new Map(), verifiedFingerprints: get().verifiedFingerprints });
     },
 
     // Logs
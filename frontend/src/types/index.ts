@@ -1,27 +1,13 @@
-// Signaling message types (matching backend)
-export type SignalingMessageType =
-    | 'join'
-    | 'leave'
-    | 'offer'
-    | 'answer'
-    | 'candidate'
-    | 'peer-list'
-    | 'peer-joined'
-    | 'peer-left'
-    | 'error';
-
-export interface SignalingMessage {
-    type: SignalingMessageType;
-    roomId: string;
-    senderId: string;
-    targetId?: string;
-    payload?: unknown;
-}
+import type { SignalingMessage, SignalingMessageType, ErrorCode } from '@shared/signaling';
+
+export type { SignalingMessage, SignalingMessageType, ErrorCode };
 
 export interface PeerInfo {
     id: string;
     username?: string;
     joinedAt: number;
+    version?: number; // Absent for clients from before protocol versioning
+    capabilities?: string[];
 }
 
 export interface PeerListMessage extends SignalingMessage {
@@ -34,11 +20,60 @@ export interface PeerJoinedMessage extends SignalingMessage {
     payload: PeerInfo;
 }
 
+export type PeerLeftReason = 'left' | 'kicked' | 'banned' | 'disconnected';
+
 export interface PeerLeftMessage extends SignalingMessage {
     type: 'peer-left';
+    payload: { peerId: string; reason: PeerLeftReason };
+}
+
+export interface RoomState {
+    hostId?: string;
+    locked: boolean;
+    lobby: boolean;
+}
+
+export interface RoomStateMessage extends SignalingMessage {
+    type: 'room-state';
+    payload: RoomState;
+}
+
+// Lobby: a peer waiting for the host to let them in
+export interface LobbyEntry {
+    peerId: string;
+    username?: string;
+    requestedAt: number;
+}
+
+export interface KnockMessage extends SignalingMessage {
+    type: 'knock';
+    payload: LobbyEntry;
+}
+
+export interface KnockCancelledMessage extends SignalingMessage {
+    type: 'knock-cancelled';
     payload: { peerId: string };
 }
 
+export type LobbyStatus = 'waiting' | 'denied';
+
+// Credentials sent with a join
+export interface JoinAuth {
+    password?: string;
+    hostToken?: string;
+}
+
+// Server-assigned identity, sent on connect and after a successful resume
+export interface WelcomeMessage extends SignalingMessage {
+    type: 'welcome';
+    payload: { peerId: string; resumeToken: string; relay: boolean };
+}
+
+export interface ResumeMessage extends SignalingMessage {
+    type: 'resume';
+    payload: { resumeToken: string };
+}
+
 export interface OfferMessage extends SignalingMessage {
     type: 'offer';
     payload: RTCSessionDescriptionInit;
@@ -54,19 +89,58 @@ export interface CandidateMessage extends SignalingMessage {
     payload: RTCIceCandidateInit;
 }
 
+// Server relay fallback: ECDH key exchange, then AES-GCM frames the server can't read
+export interface RelayKeyMessage extends SignalingMessage {
+    type: 'relay-key';
+    // Base64 raw P-256 point; in an encrypted room, base64 of that string
+    // sealed with the room key
+    payload: { publicKey: string };
+}
+
+export interface RelayFrame {
+    seq: number;
+    iv: string; // base64
+    data: string; // base64 ciphertext of a DataChannelMessage
+}
+
+export interface RelayMessage extends SignalingMessage {
+    type: 'relay';
+    payload: RelayFrame;
+}
+
+export interface RelayAckMessage extends SignalingMessage {
+    type: 'relay-ack';
+    payload: { seq: number };
+}
+
+
+export interface SignalingError {
+    code: ErrorCode;
+    message: string;
+    retryAfter?: number; // Seconds to wait before trying again
+}
+
 export interface ErrorMessage extends SignalingMessage {
     type: 'error';
-    payload: { code: string; message: string };
+    payload: SignalingError;
 }
 
 // File transfer types
 export interface FileMetadata {
     id: string;
-    filename: string;
+    filename: string; // For a folder, the folder's name
     size: number;
     mime: string;
     senderId: string;
     senderName?: string;
+    // Set for a folder: its files, in the order their bytes are sent
+    entries?: FolderEntry[];
+}
+
+export interface FolderEntry {
+    path: string; // Relative to the folder, '/'-separated
+    size: number;
+    mime: string;
 }
 
 export interface FileChunk {
@@ -79,6 +153,13 @@ export interface FileChunk {
 export interface FileComplete {
     type: 'done';
     fileId: string;
+    // SHA-256 over the SHA-256 of each 1 MB block, hex; absent if the sender
+    // couldn't hash the file. Older senders put a whole-file `sha256` here
+    // instead, which can't be checked without reading the file back.
+    blockHash?: string;
+    // Chunks sent in all; striped chunks may still be arriving after this.
+    // Absent from older senders, whose chunks always arrive first.
+    chunks?: number;
 }
 
 export interface FileStart {
@@ -86,10 +167,85 @@ export interface FileStart {
     metadata: FileMetadata;
 }
 
+// Optional features a peer may support; unknown ones are ignored
+export type Capability = 'relay' | 'binary-chunks' | 'resume' | 'file-offer' | 'folders' | 'transfer-control' | 'striping' | 'control-channel' | 'verification';
+
+// First message on every data channel, from both sides
+export interface Hello {
+    type: 'hello';
+    version: number;
+    capabilities: string[];
+}
+
+// What two peers agreed to use with each other
+export interface PeerProtocol {
+    version: number;
+    features: Capability[];
+}
+
+// Receiver -> sender: whether the user took the file offered by file-start.
+// Senders with the file-offer capability send no chunks until accepted.
+export interface FileAnswer {
+    type: 'file-answer';
+    fileId: string;
+    accepted: boolean;
+}
+
+// Receiver -> sender: every chunk up to and including index has arrived
+export interface ChunkAck {
+    type: 'ack';
+    fileId: string;
+    index: number;
+}
+
+// Sender -> receiver after a reconnect: offer to continue an interrupted
+// file, from the chunk after the last one acknowledged
+export interface ResumeOffer {
+    type: 'resume-offer';
+    fileId: string;
+    index: number;
+}
+
+// Receiver -> sender: the chunk to continue from, or null if the receiver
+// no longer has the file
+export interface ResumeAnswer {
+    type: 'resume-answer';
+    fileId: string;
+    index: number | null;
+}
+
+// Either side -> the other, about a file in progress. A pause holds the
+// sender's loop before its next chunk until either side sends resume; a
+// cancel ends the transfer for good and the receiver drops what it has.
+export interface TransferControl {
+    type: 'pause' | 'resume' | 'cancel';
+    fileId: string;
+}
+
+// Both sides -> the other, for the verification code: first a hash of a
+// random nonce, then, once each has the other's hash, the nonce itself
+export interface SasCommit {
+    type: 'sas-commit';
+    commitment: string;
+}
+
+export interface SasReveal {
+    type: 'sas-reveal';
+    nonce: string;
+}
+
 export type DataChannelMessage =
+    | Hello
     | FileStart
     | FileChunk
     | FileComplete
+    | FileAnswer
+    | ChunkAck
+    | ResumeOffer
+    | ResumeAnswer
+    | TransferControl
+    | SasCommit
+    | SasReveal
     | ChatMessage;
 
 export interface ChatMessage {
@@ -108,14 +264,33 @@ export interface FileTransfer {
     size: number;
     mime: string;
     progress: number; // 0-100
-    status: 'pending' | 'transferring' | 'completed' | 'failed';
+    // queued: waiting for a free send slot; pending: offered, waiting for the receiver to accept;
+    // interrupted: waiting for the peer to reconnect; paused: held by either side
+    status: 'queued' | 'pending' | 'declined' | 'transferring' | 'paused' | 'interrupted' | 'completed' | 'failed' | 'cancelled';
     direction: 'send' | 'receive';
     peerId: string;
     peerName?: string;
-    chunks?: Uint8Array[];
-    blob?: Blob;
+    blob?: Blob; // Received file, in memory or backed by OPFS
+    saved?: boolean; // Written straight to a file or download, so there's no blob
     error?: string;
     timestamp: number; // When the transfer started
+    relayed?: boolean; // Sent through the signaling server rather than P2P
+    verified?: boolean; // Received file matched the sender's SHA-256
+    folder?: { files: number }; // Set when this is a whole folder
+    bytesPerSecond?: number; // Recent throughput, while moving
+    eta?: number | null; // Seconds left at that rate; null while stalled
+    deliveries?: PeerDelivery[]; // Sending only: how far each recipient has got
+}
+
+// One recipient's copy of a file being sent
+export interface PeerDelivery {
+    peerId: string;
+    peerName?: string;
+    status: Exclude<FileTransfer['status'], 'queued'>;
+    deliveredBytes: number; // Acknowledged by the peer, or sent where the peer doesn't ack
+    bytesPerSecond: number;
+    eta: number | null;
+    error?: string;
 }
 
 // Peer connection state
@@ -123,11 +298,34 @@ export interface PeerConnection {
     id: string;
     username?: string;
     connection: RTCPeerConnection;
-    dataChannel?: RTCDataChannel;
+    dataChannel?: RTCDataChannel; // Bulk: file-starts, chunks and completions
+    controlChannel?: RTCDataChannel; // High priority: chat and control; unset with older peers
     connected: boolean;
+    protocol?: PeerProtocol; // Set once the peer's hello arrives
+    fingerprint?: string; // The peer's DTLS fingerprint, which identifies its device
+    sas?: SasSymbol[]; // For comparing out of band; set once both nonces are in
+}
+
+// One symbol of the short authentication string two peers compare
+export interface SasSymbol {
+    emoji: string;
+    name: string;
 }
 
 // API types
+export interface CreateRoomRequest {
+    password?: string;
+    lobby?: boolean;
+}
+
 export interface CreateRoomResponse {
     roomId: string;
+    passwordProtected: boolean;
+    hostToken: string;
+}
+
+export interface IceServersResponse {
+    iceServers: RTCIceServer[];
+    ttl: number; // Seconds the TURN credentials are valid for
+    expiresAt: number;
 }
@@ -0,0 +1,61 @@
+// Signaling message types, used by both the server and the app so the two
+// can't drift apart
+
+export type SignalingMessageType =
+    | 'join'
+    | 'leave'
+    | 'offer'
+    | 'answer'
+    | 'candidate'
+    | 'peer-list'
+    | 'peer-joined'
+    | 'peer-left'
+    | 'room-state'
+    | 'kick'
+    | 'ban'
+    | 'lock'
+    | 'unlock'
+    | 'knock'
+    | 'knock-cancelled'
+    | 'approve'
+    | 'deny'
+    | 'lobby-waiting'
+    | 'lobby-denied'
+    | 'welcome'
+    | 'resume'
+    | 'relay-key'
+    | 'relay'
+    | 'relay-ack'
+    | 'error';
+
+// Base signaling message structure
+export interface SignalingMessage {
+    type: SignalingMessageType;
+    roomId: string;
+    senderId: string;
+    targetId?: string;
+    payload?: unknown;
+}
+
+// Error codes sent to clients
+export type ErrorCode =
+    | 'INVALID_MESSAGE'
+    | 'UNKNOWN_TYPE'
+    | 'MISSING_TARGET'
+    | 'PEER_NOT_FOUND'
+    | 'AUTH_REQUIRED'
+    | 'AUTH_FAILED'
+    | 'NOT_HOST'
+    | 'ROOM_LOCKED'
+    | 'BANNED'
+    | 'RESUME_FAILED'
+    | 'INVALID_ROOM_ID'
+    | 'INVALID_PAYLOAD'
+    | 'MESSAGE_TOO_LARGE'
+    | 'RATE_LIMITED'
+    | 'ROOM_FULL'
+    | 'ROOM_CLOSED'
+    | 'DISCONNECTED'
+    | 'RELAY_DISABLED'
+    | 'RELAY_QUOTA_EXCEEDED'
+    | 'ALREADY_JOINED';
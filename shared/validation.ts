@@ -0,0 +1,260 @@
+// Runtime checks for signaling messages, built from the interfaces in
+// signaling.ts. The server checks what clients send with these, and the app
+// checks what the server sends.
+import { SignalingMessage, SignalingMessageType, ErrorCode } from './signaling';
+
+// Upper bounds for client-supplied fields
+export const LIMITS = {
+    messageLength: 128 * 1024,
+    id: 64,
+    username: 64,
+    password: 256,
+    token: 256,
+    sdp: 64 * 1024,
+    candidate: 2048,
+    errorMessage: 1024,
+    peers: 1000,
+    relayKey: 256,
+    relayIv: 32,
+    relayData: 96 * 1024,
+    capabilities: 32,
+};
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Returns a description of the first problem, or null when the value matches
+type Validator = (value: unknown) => string | null;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function str(max: number, pattern?: RegExp): Validator {
+    return (value) => {
+        if (typeof value !== 'string') return 'must be a string';
+        if (value.length > max) return `must be at most ${max} characters`;
+        if (pattern && !pattern.test(value)) return 'has an invalid format';
+        return null;
+    };
+}
+
+function num(): Validator {
+    return (value) => typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+}
+
+function bool(): Validator {
+    return (value) => typeof value === 'boolean' ? null : 'must be a boolean';
+}
+
+function oneOf(...options: string[]): Validator {
+    return (value) => options.includes(value as string) ? null : `must be one of ${options.join(', ')}`;
+}
+
+function optional(check: Validator): Validator {
+    return (value) => value === undefined ? null : check(value);
+}
+
+function nullable(check: Validator): Validator {
+    return (value) => value === null ? null : check(value);
+}
+
+function list(item: Validator, max: number): Validator {
+    return (value) => {
+        if (!Array.isArray(value)) return 'must be an array';
+        if (value.length > max) return `must have at most ${max} entries`;
+        for (let i = 0; i < value.length; i++) {
+            const problem = item(value[i]);
+            if (problem) return `[${i}] ${problem}`;
+        }
+        return null;
+    };
+}
+
+// Strict shapes reject unknown keys, for payloads the server forwards verbatim
+function shape(fields: Record<string, Validator>, strict = false): Validator {
+    return (value) => {
+        if (!isObject(value)) return 'must be an object';
+        for (const [key, check] of Object.entries(fields)) {
+            const problem = check(value[key]);
+            if (problem) return `${key} ${problem}`;
+        }
+        if (strict) {
+            const unknown = Object.keys(value).find(key => !(key in fields));
+            if (unknown) return `has unexpected field ${unknown}`;
+        }
+        return null;
+    };
+}
+
+const peerId = str(LIMITS.id, ID_PATTERN);
+const username = str(LIMITS.username);
+const version = num();
+const capabilities = list(str(LIMITS.id), LIMITS.capabilities);
+
+// RTCSessionDescriptionInit and RTCIceCandidateInit
+const sessionDescription = shape({
+    type: oneOf('offer', 'answer', 'pranswer', 'rollback'),
+    sdp: optional(str(LIMITS.sdp)),
+}, true);
+
+const iceCandidate = shape({
+    candidate: optional(str(LIMITS.candidate)),
+    sdpMid: optional(nullable(str(LIMITS.id))),
+    sdpMLineIndex: optional(nullable(num())),
+    usernameFragment: optional(nullable(str(LIMITS.id))),
+}, true);
+
+const relayKey = shape({ publicKey: str(LIMITS.relayKey) }, true);
+const relayFrame = shape({
+    seq: num(),
+    iv: str(LIMITS.relayIv),
+    data: str(LIMITS.relayData),
+}, true);
+const relayAck = shape({ seq: num() }, true);
+
+const peerInfo = shape({
+    id: peerId,
+    username: optional(username),
+    joinedAt: num(),
+    version: optional(version),
+    capabilities: optional(capabilities),
+});
+
+const lobbyEntry = shape({
+    peerId,
+    username: optional(username),
+    requestedAt: num(),
+});
+
+interface MessageSchema {
+    payload?: Validator;
+    target?: boolean; // targetId is required
+    sender?: boolean; // senderId must be a peer (forwarded messages)
+}
+
+// Messages a client may send to the server
+const CLIENT_MESSAGES: Partial<Record<SignalingMessageType, MessageSchema>> = {
+    join: {
+        payload: optional(shape({
+            username: optional(username),
+            password: optional(str(LIMITS.password)),
+            hostToken: optional(str(LIMITS.token)),
+            version: optional(version),
+            capabilities: optional(capabilities),
+        })),
+    },
+    resume: { payload: shape({ resumeToken: str(LIMITS.token) }) },
+    leave: {},
+    offer: { target: true, payload: sessionDescription },
+    answer: { target: true, payload: sessionDescription },
+    candidate: { target: true, payload: iceCandidate },
+    kick: { target: true },
+    ban: { target: true },
+    lock: {},
+    unlock: {},
+    approve: { target: true },
+    deny: { target: true },
+    'relay-key': { target: true, payload: relayKey },
+    relay: { target: true, payload: relayFrame },
+    'relay-ack': { target: true, payload: relayAck },
+};
+
+// Messages the server sends (or forwards) to a client
+const SERVER_MESSAGES: Partial<Record<SignalingMessageType, MessageSchema>> = {
+    welcome: { payload: shape({ peerId, resumeToken: str(LIMITS.token), relay: bool() }) },
+    'peer-list': { payload: list(peerInfo, LIMITS.peers) },
+    'peer-joined': { payload: peerInfo },
+    'peer-left': { payload: shape({ peerId, reason: oneOf('left', 'kicked', 'banned', 'disconnected') }) },
+    'room-state': { payload: shape({ hostId: optional(peerId), locked: bool(), lobby: bool() }) },
+    knock: { payload: lobbyEntry },
+    'knock-cancelled': { payload: shape({ peerId }) },
+    'lobby-waiting': {},
+    'lobby-denied': {},
+    offer: { sender: true, target: true, payload: sessionDescription },
+    answer: { sender: true, target: true, payload: sessionDescription },
+    candidate: { sender: true, target: true, payload: iceCandidate },
+    'relay-key': { sender: true, target: true, payload: relayKey },
+    relay: { sender: true, target: true, payload: relayFrame },
+    'relay-ack': { sender: true, target: true, payload: relayAck },
+    error: {
+        payload: shape({
+            code: str(LIMITS.id),
+            message: str(LIMITS.errorMessage),
+            retryAfter: optional(num()),
+        }),
+    },
+};
+
+export type ValidationResult =
+    | { ok: true; message: SignalingMessage }
+    | { ok: false; code: ErrorCode; error: string };
+
+function invalid(code: ErrorCode, error: string): ValidationResult {
+    return { ok: false, code, error };
+}
+
+function validateMessage(
+    value: unknown,
+    schemas: Partial<Record<SignalingMessageType, MessageSchema>>,
+    roomId: Validator,
+): ValidationResult {
+    if (!isObject(value) || typeof value.type !== 'string') {
+        return invalid('INVALID_MESSAGE', 'Message must be an object with a type');
+    }
+
+    const schema = schemas[value.type as SignalingMessageType];
+    if (!schema) return invalid('UNKNOWN_TYPE', `Unknown message type: ${value.type}`);
+
+    const roomProblem = roomId(value.roomId);
+    if (roomProblem) return invalid('INVALID_ROOM_ID', `roomId ${roomProblem}`);
+
+    const senderProblem = (schema.sender ? peerId : str(LIMITS.id))(value.senderId);
+    if (senderProblem) return invalid('INVALID_MESSAGE', `senderId ${senderProblem}`);
+
+    if (schema.target) {
+        if (value.targetId === undefined || value.targetId === '') {
+            return invalid('MISSING_TARGET', 'Target peer ID is required');
+        }
+        const targetProblem = peerId(value.targetId);
+        if (targetProblem) return invalid('INVALID_MESSAGE', `targetId ${targetProblem}`);
+    }
+
+    const payloadProblem = schema.payload
+        ? schema.payload(value.payload)
+        : optional(() => 'must be empty')(value.payload);
+    if (payloadProblem) return invalid('INVALID_PAYLOAD', `payload ${payloadProblem}`);
+
+    return { ok: true, message: value as unknown as SignalingMessage };
+}
+
+function parseMessage(raw: string, validate: (value: unknown) => ValidationResult): ValidationResult {
+    if (raw.length > LIMITS.messageLength) {
+        return invalid('MESSAGE_TOO_LARGE', `Messages are limited to ${LIMITS.messageLength} characters`);
+    }
+
+    let value: unknown;
+    try {
+        value = JSON.parse(raw);
+    } catch {
+        return invalid('INVALID_MESSAGE', 'Invalid message format');
+    }
+    return validate(value);
+}
+
+// Client -> server: every message must name a valid room
+export function validateClientMessage(value: unknown): ValidationResult {
+    return validateMessage(value, CLIENT_MESSAGES, str(LIMITS.id, ID_PATTERN));
+}
+
+// Server -> client: welcome and errors may arrive before we are in a room
+export function validateServerMessage(value: unknown): ValidationResult {
+    return validateMessage(value, SERVER_MESSAGES, str(LIMITS.id, /^[A-Za-z0-9_-]*$/));
+}
+
+export function parseClientMessage(raw: string): ValidationResult {
+    return parseMessage(raw, validateClientMessage);
+}
+
+export function parseServerMessage(raw: string): ValidationResult {
+    return parseMessage(raw, validateServerMessage);
+}